@@ -0,0 +1,253 @@
+/**
+ * KeySentinel library API, for embedding the scanner in Node tooling.
+ *
+ * Nothing here prints, exits the process or depends on the GitHub Actions
+ * runtime; config messages go to an optional logger. The Action and the CLI
+ * are built on these functions.
+ *
+ *   import { loadConfig, scanText } from 'keysentinel';
+ *   const findings = scanText(content, { filename: 'app.env', config: loadConfig() });
+ */
+
+import * as path from 'path';
+import { buildConfig, Config, ConfigLogger, ConfigOverrides, loadConfigForCli, shouldIgnoreFile } from './config';
+import { Finding, SecretPattern, getEnabledPatterns } from './patterns';
+import { FilePattern, getEnabledFilePatterns, scanFilePath } from './filenames';
+import { extractAddedLines, extractContextLines, scanFile, splitDiff } from './scanner';
+import { AddedLine } from './structured';
+import { ScanContext, createScanContext } from './redos';
+import { SkipReason, probeScanFile, readLineWindows, readScanFile } from './walk';
+
+export type { Config, ConfigLogger, ConfigOverrides } from './config';
+export type {
+  CommitInfo,
+  Confidence,
+  Finding,
+  SecretPattern,
+  Severity,
+  Suppression,
+  VerificationStatus,
+} from './patterns';
+export type { FilePattern } from './filenames';
+export type { SafeFinding } from './formats';
+export type { SkipReason } from './walk';
+export type { ScanContext, ScanDiagnostic } from './redos';
+export { shouldFail } from './scanner';
+export { createScanContext } from './redos';
+export { toSafeFinding } from './formats';
+
+export interface LoadConfigOptions {
+  /** Directory to look for `.keysentinel.yml` in (default: `process.cwd()`) */
+  cwd?: string;
+  /** Config file to load instead of `<cwd>/.keysentinel.yml` */
+  configPath?: string;
+  overrides?: ConfigOverrides;
+  /** Receives config warnings; silent by default */
+  logger?: ConfigLogger;
+}
+
+export interface ScanOptions {
+  /** Config to scan with; the built-in defaults when omitted */
+  config?: Config;
+  /** Path to report findings under; its extension selects the config file parser (default: `stdin`) */
+  filename?: string;
+  /** Also judge the file by its path (sensitive file names), as for a newly added file */
+  newFile?: boolean;
+  /** Scan this call is part of, which collects its diagnostics (see createScanContext); a new one by default */
+  context?: ScanContext;
+}
+
+export interface ScanFilesOptions {
+  /** Config to scan with; the built-in defaults when omitted */
+  config?: Config;
+  /** Directory paths are resolved against and reported relative to (default: `process.cwd()`) */
+  cwd?: string;
+  /** Larger files are only judged by their path (default: 1 MB) */
+  maxFileBytes?: number;
+  /** Called for every file whose content was not scanned */
+  onSkip?: (file: string, reason: SkipReason | 'ignored') => void;
+  /** Scan this call is part of, which collects its diagnostics (see createScanContext); a new one by default */
+  context?: ScanContext;
+}
+
+const DEFAULT_MAX_FILE_BYTES = 1024 * 1024;
+
+// Files larger than this are streamed in windows of lines rather than read whole
+const STREAM_THRESHOLD_BYTES = 512 * 1024;
+const STREAM_WINDOW_LINES = 5000;
+const STREAM_OVERLAP_LINES = 100;
+
+const silentLogger: ConfigLogger = {};
+
+// Enabled rules per config, so scanning many files doesn't rebuild them
+const rulesCache = new WeakMap<Config, { patterns: SecretPattern[]; filePatterns: FilePattern[] }>();
+
+function rulesFor(config: Config): { patterns: SecretPattern[]; filePatterns: FilePattern[] } {
+  let rules = rulesCache.get(config);
+  if (!rules) {
+    rules = {
+      patterns: getEnabledPatterns(config.patterns, config.customPatterns, config.rules),
+      filePatterns: getEnabledFilePatterns(config.patterns, config.customFilePatterns, config.rules),
+    };
+    rulesCache.set(config, rules);
+  }
+  return rules;
+}
+
+function toLines(text: string): AddedLine[] {
+  return text.split('\n').map((line, i) => ({ line, lineNumber: i + 1 }));
+}
+
+/**
+ * Scan one window of a large file's lines (see readLineWindows), adding the
+ * findings not already reported by the window before it
+ */
+function scanWindow(
+  file: string,
+  window: { lines: AddedLine[]; start: number },
+  config: Config,
+  checkPath: boolean,
+  context: ScanContext,
+  seen: Set<string>,
+  findings: Finding[]
+): void {
+  const { patterns, filePatterns } = rulesFor(config);
+  const pathFindings = checkPath ? scanFilePath(file, filePatterns, window.lines, context) : [];
+  for (const finding of [...pathFindings, ...scanFile(file, window.lines, config, patterns, [], context)]) {
+    // Lines before `start` belong to the previous window, which reported them
+    if (finding.line !== null && finding.line < window.start) continue;
+    const key = `${finding.ruleId}:${finding.line}:${finding.rawValue}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    findings.push(finding);
+  }
+}
+
+/**
+ * Load `.keysentinel.yml` merged over the defaults, with optional overrides.
+ * A missing config file gives the defaults.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): Config {
+  return loadConfigForCli({ ...options, logger: options.logger ?? silentLogger });
+}
+
+/**
+ * The built-in default config
+ */
+export function defaultConfig(): Config {
+  return buildConfig(null, {}, silentLogger);
+}
+
+/**
+ * Scan a text in full, e.g. a file's content. A large text is scanned in
+ * windows of lines, as scanFileStreaming scans a large file.
+ */
+export function scanText(text: string, options: ScanOptions = {}): Finding[] {
+  const config = options.config ?? defaultConfig();
+  const filename = options.filename ?? 'stdin';
+  const context = options.context ?? createScanContext();
+  const { patterns, filePatterns } = rulesFor(config);
+  const lines = toLines(text);
+
+  if (Buffer.byteLength(text) > STREAM_THRESHOLD_BYTES) {
+    const findings: Finding[] = [];
+    const seen = new Set<string>();
+    for (let i = 0; i < lines.length; i += STREAM_WINDOW_LINES) {
+      const window = { lines: lines.slice(Math.max(0, i - STREAM_OVERLAP_LINES), i + STREAM_WINDOW_LINES), start: i + 1 };
+      scanWindow(filename, window, config, options.newFile ?? false, context, seen, findings);
+    }
+    return findings;
+  }
+
+  const findings: Finding[] = options.newFile ? scanFilePath(filename, filePatterns, lines, context) : [];
+  findings.push(...scanFile(filename, lines, config, patterns, [], context));
+  return findings;
+}
+
+/**
+ * Scan the lines a unified diff adds. A multi-file diff (`git diff`, `git show`)
+ * is split per file, and files it adds are also judged by their path; a bare
+ * patch of one file is reported under `options.filename`. Ignored files are skipped.
+ */
+export function scanDiff(diff: string, options: ScanOptions = {}): Finding[] {
+  const config = options.config ?? defaultConfig();
+  const context = options.context ?? createScanContext();
+  const { patterns, filePatterns } = rulesFor(config);
+  const files = /^diff --git /m.test(diff)
+    ? splitDiff(diff)
+    : [{ file: options.filename ?? 'stdin', isNew: options.newFile ?? false, patch: diff }];
+
+  const findings: Finding[] = [];
+  for (const { file, isNew, patch } of files) {
+    if (shouldIgnoreFile(file, config.ignore)) continue;
+
+    const addedLines = extractAddedLines(patch);
+    if (isNew) findings.push(...scanFilePath(file, filePatterns, addedLines, context));
+    if (addedLines.length > 0) {
+      findings.push(...scanFile(file, addedLines, config, patterns, extractContextLines(patch), context));
+    }
+  }
+  return findings;
+}
+
+/**
+ * Scan files in full. Every file is also judged by its path; binary and
+ * oversized files by their path only. Ignored files are skipped.
+ */
+export function scanFiles(paths: string[], options: ScanFilesOptions = {}): Finding[] {
+  const config = options.config ?? defaultConfig();
+  const cwd = options.cwd ?? process.cwd();
+  const context = options.context ?? createScanContext();
+  const { patterns, filePatterns } = rulesFor(config);
+
+  const findings: Finding[] = [];
+  for (const filePath of paths) {
+    const fullPath = path.resolve(cwd, filePath);
+    const file = path.relative(cwd, fullPath).split(path.sep).join('/');
+    if (shouldIgnoreFile(file, config.ignore)) {
+      options.onSkip?.(file, 'ignored');
+      continue;
+    }
+
+    const result = readScanFile(fullPath, options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES);
+    const lines = 'content' in result ? toLines(result.content) : [];
+    findings.push(...scanFilePath(file, filePatterns, lines, context));
+    if ('skipped' in result) {
+      options.onSkip?.(file, result.skipped);
+      continue;
+    }
+
+    findings.push(...scanFile(file, lines, config, patterns, [], context));
+  }
+  return findings;
+}
+
+/**
+ * Scan one file in full like scanFiles, streaming it when it is large. A streamed
+ * file is scanned in windows of lines, so config file parsing (which needs the
+ * whole document) only applies to files below the streaming threshold.
+ */
+export async function scanFileStreaming(filePath: string, options: ScanFilesOptions = {}): Promise<Finding[]> {
+  const cwd = options.cwd ?? process.cwd();
+  const fullPath = path.resolve(cwd, filePath);
+  const maxFileBytes = options.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+  const probe = probeScanFile(fullPath, maxFileBytes);
+  if ('skipped' in probe || probe.size <= STREAM_THRESHOLD_BYTES) {
+    return scanFiles([filePath], options);
+  }
+
+  const config = options.config ?? defaultConfig();
+  const file = path.relative(cwd, fullPath).split(path.sep).join('/');
+  if (shouldIgnoreFile(file, config.ignore)) {
+    options.onSkip?.(file, 'ignored');
+    return [];
+  }
+
+  const context = options.context ?? createScanContext();
+  const findings: Finding[] = [];
+  const seen = new Set<string>();
+  for await (const window of readLineWindows(fullPath, STREAM_WINDOW_LINES, STREAM_OVERLAP_LINES)) {
+    scanWindow(file, window, config, true, context, seen, findings);
+  }
+  return findings;
+}
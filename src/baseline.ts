@@ -0,0 +1,173 @@
+/**
+ * Baseline of accepted findings (`.keysentinel-baseline.json`).
+ *
+ * Each finding is identified by a fingerprint: a hash of its rule, file and
+ * normalised secret. Line numbers are left out, so entries survive code moving
+ * around the file. The baseline stores fingerprints only, never the secrets.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Finding } from './patterns';
+import { ConfigLogger } from './config';
+
+export const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+  fingerprint: string;
+  ruleId: string;
+  file: string;
+  /** Line when the baseline was written; informational only */
+  line: number | null;
+  type: string;
+}
+
+export interface Baseline {
+  version: number;
+  entries: BaselineEntry[];
+}
+
+export interface BaselineResult {
+  /** Findings not covered by the baseline */
+  findings: Finding[];
+  /** Findings covered by the baseline */
+  baselined: Finding[];
+  /** Fingerprints of baseline entries that matched a finding */
+  matched: Set<string>;
+}
+
+function normalizePath(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Normalise a secret so formatting changes don't produce a new fingerprint:
+ * surrounding quotes and all whitespace (e.g. the line breaks of a key block) are dropped
+ */
+function normalizeSecret(value: string): string {
+  return value.trim().replace(/^(["'`])(.*)\1$/s, '$2').replace(/\s+/g, '');
+}
+
+/**
+ * Stable fingerprint of a finding: SHA-256 of rule, file and normalised secret
+ */
+export function fingerprintFinding(finding: Finding): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${finding.ruleId}\0${normalizePath(finding.file)}\0${normalizeSecret(finding.rawValue)}`)
+    .digest('hex');
+}
+
+/**
+ * Fingerprint of a rule and normalised secret alone, so the same secret matches
+ * under any path (e.g. after a file was renamed)
+ */
+export function fingerprintSecret(finding: Finding): string {
+  return crypto
+    .createHash('sha256')
+    .update(`${finding.ruleId}\0${normalizeSecret(finding.rawValue)}`)
+    .digest('hex');
+}
+
+/**
+ * Build a baseline accepting every given finding, sorted for stable diffs
+ */
+export function createBaseline(findings: Finding[]): Baseline {
+  const entries = new Map<string, BaselineEntry>();
+  for (const finding of findings) {
+    const fingerprint = fingerprintFinding(finding);
+    if (entries.has(fingerprint)) continue;
+    entries.set(fingerprint, {
+      fingerprint,
+      ruleId: finding.ruleId,
+      file: normalizePath(finding.file),
+      line: finding.line,
+      type: finding.type,
+    });
+  }
+
+  return {
+    version: BASELINE_VERSION,
+    entries: [...entries.values()].sort(
+      (a, b) =>
+        a.file.localeCompare(b.file) ||
+        (a.line ?? 0) - (b.line ?? 0) ||
+        a.fingerprint.localeCompare(b.fingerprint)
+    ),
+  };
+}
+
+/**
+ * Load a baseline file. Returns null when it is missing or invalid.
+ */
+export function loadBaseline(baselinePath: string, logger?: ConfigLogger): Baseline | null {
+  const log = logger ?? console;
+  try {
+    if (!fs.existsSync(baselinePath)) {
+      log.debug?.(`Baseline file not found at ${baselinePath}`);
+      return null;
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(baselinePath, 'utf8')) as Partial<Baseline>;
+    if (!parsed || !Array.isArray(parsed.entries)) {
+      log.warn?.(`Invalid baseline file at ${baselinePath}: missing "entries"`);
+      return null;
+    }
+    if (parsed.version !== BASELINE_VERSION) {
+      log.warn?.(`Unsupported baseline version ${parsed.version} in ${baselinePath}, expected ${BASELINE_VERSION}`);
+      return null;
+    }
+
+    const entries = parsed.entries.filter(
+      (e): e is BaselineEntry => !!e && typeof e.fingerprint === 'string' && typeof e.file === 'string'
+    );
+    log.info?.(`Loaded ${entries.length} baseline entries from ${baselinePath}`);
+    return { version: BASELINE_VERSION, entries };
+  } catch (e) {
+    log.warn?.(`Failed to load baseline file ${baselinePath}: ${e}`);
+    return null;
+  }
+}
+
+export function writeBaseline(baselinePath: string, baseline: Baseline): void {
+  fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Split findings into new ones and ones already accepted by the baseline
+ */
+export function applyBaseline(findings: Finding[], baseline: Baseline | null): BaselineResult {
+  const result: BaselineResult = { findings: [], baselined: [], matched: new Set() };
+  const known = new Set(baseline?.entries.map(e => e.fingerprint) ?? []);
+
+  for (const finding of findings) {
+    const fingerprint = fingerprintFinding(finding);
+    if (known.has(fingerprint)) {
+      result.baselined.push(finding);
+      result.matched.add(fingerprint);
+    } else {
+      result.findings.push(finding);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Baseline entries that no longer match anything: their file is gone, or the
+ * file was scanned in full (`fullyScanned`) and the entry matched no finding.
+ * Diff scans only see changed lines, so unmatched entries in other files are not stale.
+ */
+export function findStaleEntries(
+  baseline: Baseline | null,
+  matched: Set<string>,
+  fileExists: (file: string) => boolean,
+  fullyScanned: Set<string> = new Set()
+): BaselineEntry[] {
+  if (!baseline) return [];
+  return baseline.entries.filter(
+    entry =>
+      !matched.has(entry.fingerprint) &&
+      (!fileExists(entry.file) || fullyScanned.has(entry.file))
+  );
+}
@@ -7,10 +7,38 @@ import * as fs from "fs";
 import * as path from "path";
 import { execSync } from "child_process";
 import * as readline from "readline";
+import { isMainThread } from "worker_threads";
 import { loadConfigForCli, shouldIgnoreFile } from "./config";
+import type { Config, ConfigLogger, ConfigOverrides } from "./config";
 import { getEnabledPatterns } from "./patterns";
-import { extractAddedLines, scanLines, shouldFail } from "./scanner";
+import {
+  extractAddedLines,
+  shouldFail,
+  formatLineRange,
+  sortFindings,
+} from "./scanner";
+import type { FilePatch } from "./scanner";
 import { maskSecret } from "./mask";
+import { verifyFindings } from "./verify";
+import { getEnabledFilePatterns } from "./filenames";
+import { generateSarif, RuleMetadata } from "./sarif";
+import { listFiles } from "./walk";
+import type { SkipReason } from "./walk";
+import { createScanContext, scanText } from "./api";
+import type { ScanDiagnostic } from "./api";
+import { runScanJobs } from "./pool";
+import type { ScanJob } from "./pool";
+import { scanHistory } from "./history";
+import type { HistoryOptions, HistoryResult } from "./history";
+import { formatCsv, formatJson, formatJunit } from "./formats";
+import { describeConfig, loadConfigLayers } from "./origins";
+import {
+  applyBaseline,
+  createBaseline,
+  findStaleEntries,
+  loadBaseline,
+  writeBaseline,
+} from "./baseline";
 import type { Finding, Severity } from "./patterns";
 
 const PRE_COMMIT_HOOK = `#!/bin/sh
@@ -107,7 +135,124 @@ function cmdInstall(): void {
   console.log("Pre-push hook installed at .git/hooks/pre-push");
 }
 
-function cmdScan(): void {
+function cliOverrides(): ConfigOverrides {
+  return {
+    verify: process.argv.includes("--verify") ? true : undefined,
+    concurrency: argValue("--jobs"),
+  };
+}
+
+const OUTPUT_FORMATS = ["text", "json", "junit", "csv", "sarif"] as const;
+type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+interface OutputOptions {
+  format: OutputFormat;
+  /** File to write the report to; stdout when unset */
+  output?: string;
+}
+
+// Options that take a value, so it is not mistaken for a positional argument
+const VALUE_OPTIONS = ["--format", "--output", "--since", "--branch", "--stdin-filename", "--jobs", "--config"];
+
+/**
+ * Value of `--name value` or `--name=value` after the command
+ */
+function argValue(name: string): string | undefined {
+  const args = process.argv.slice(3);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === name) return args[i + 1];
+    if (args[i].startsWith(`${name}=`)) return args[i].slice(name.length + 1);
+  }
+  return undefined;
+}
+
+/**
+ * Arguments after the command that are not options or option values
+ */
+function positionalArgs(): string[] {
+  const args = process.argv.slice(3);
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (VALUE_OPTIONS.includes(args[i])) {
+      i++;
+    } else if (!args[i].startsWith("--")) {
+      positional.push(args[i]);
+    }
+  }
+  return positional;
+}
+
+function cliOutputOptions(): OutputOptions {
+  const format = argValue("--format") ?? "text";
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+    console.error(
+      `keysentinel: unknown format "${format}". Use one of: ${OUTPUT_FORMATS.join(", ")}.`,
+    );
+    process.exit(1);
+  }
+  return { format: format as OutputFormat, output: argValue("--output") };
+}
+
+/**
+ * Config messages go to stderr when stdout carries a machine-readable report
+ */
+function cliLogger(output: OutputOptions): ConfigLogger {
+  if (output.format === "text") return console;
+  return { warn: (m) => console.error(m) };
+}
+
+/**
+ * Write the human-readable report to --output, or the terminal (stderr by default)
+ */
+function writeText(
+  lines: string[],
+  output: OutputOptions,
+  print: (line: string) => void = console.error,
+): void {
+  if (output.output) {
+    fs.writeFileSync(output.output, lines.join("\n") + "\n", "utf8");
+  } else {
+    for (const line of lines) print(line);
+  }
+}
+
+/**
+ * Write a machine-readable report of the triaged findings to --output, or stdout
+ */
+function writeReport(
+  triage: Triage,
+  output: OutputOptions,
+  failOn: Severity | "off",
+  rules: RuleMetadata[],
+): void {
+  let text: string;
+  switch (output.format) {
+    case "json":
+      text = formatJson(triage.findings);
+      break;
+    case "junit":
+      text = formatJunit(triage.findings, failOn, triage.suppressed);
+      break;
+    case "csv":
+      text = formatCsv(triage.findings);
+      break;
+    default:
+      // Suppressed findings are included, marked as suppressed in source
+      text = JSON.stringify(generateSarif([...triage.findings, ...triage.suppressed], rules), null, 2);
+  }
+
+  if (output.output) {
+    fs.writeFileSync(output.output, text + "\n", "utf8");
+    console.error(
+      `KeySentinel: wrote ${output.format.toUpperCase()} report with ${triage.findings.length} finding(s) to ${output.output}.`,
+    );
+  } else {
+    process.stdout.write(text + "\n");
+  }
+}
+
+async function cmdScan(): Promise<void> {
+  const output = cliOutputOptions();
   const cwd = process.cwd();
   const gitRoot = findGitRoot(cwd);
   if (!gitRoot) {
@@ -132,10 +277,24 @@ function cmdScan(): void {
     process.exit(1);
   }
 
-  const config = loadConfigForCli({ cwd: gitRoot });
-  const patterns = getEnabledPatterns(config.patterns);
-  const allFindings: Finding[] = [];
-  let filesScanned = 0;
+  const config = loadConfigForCli({
+    cwd: gitRoot,
+    overrides: cliOverrides(),
+    logger: cliLogger(output),
+  });
+  const patterns = getEnabledPatterns(config.patterns, config.customPatterns, config.rules);
+  const filePatterns = getEnabledFilePatterns(
+    config.patterns,
+    config.customFilePatterns,
+    config.rules,
+  );
+  const newFiles = new Set(
+    runGit(gitRoot, ["diff", "--cached", "--name-only", "--diff-filter=AC"])
+      .split("\n")
+      .map((f) => f.trim())
+      .filter(Boolean),
+  );
+  const patches: FilePatch[] = [];
 
   for (const filePath of fileList) {
     if (shouldIgnoreFile(filePath, config.ignore)) continue;
@@ -147,25 +306,34 @@ function cmdScan(): void {
       continue;
     }
 
-    const addedLines = extractAddedLines(patch);
-    if (addedLines.length === 0) continue;
+    // Newly added files are also judged by their path, even if binary
+    patches.push({ file: filePath, isNew: newFiles.has(filePath), patch });
+  }
+
+  const { findings: allFindings, filesScanned } = await scanPatches(patches, config);
+  const triage = triageFindings(allFindings, config, gitRoot);
 
-    const fileFindings = scanLines(filePath, addedLines, config, patterns);
-    allFindings.push(...fileFindings);
-    filesScanned++;
+  if (output.format !== "text") {
+    await verifyFindings(triage.findings, config.verify);
+    writeReport(triage, output, config.failOn, [...patterns, ...filePatterns]);
+    process.exit(shouldFail(triage.findings, config.failOn) ? 1 : 0);
   }
 
-  if (allFindings.length === 0) {
-    console.log(
-      `KeySentinel: No secrets detected (scanned ${filesScanned} file(s)).`,
+  if (triage.findings.length === 0) {
+    writeText(
+      [`KeySentinel: No secrets detected (scanned ${filesScanned} file(s)${formatSkipped(triage)}).`],
+      output,
+      console.log,
     );
     process.exit(0);
   }
 
-  printFindings(allFindings, config.failOn, "commit");
+  await verifyFindings(triage.findings, config.verify);
+  printFindings(triage, config.failOn, "commit", output);
 }
 
-function cmdScanPush(): void {
+async function cmdScanPush(): Promise<void> {
+  const output = cliOutputOptions();
   const cwd = process.cwd();
   const gitRoot = findGitRoot(cwd);
   if (!gitRoot) {
@@ -269,7 +437,11 @@ function cmdScanPush(): void {
     commitsToScan = [...new Set(commitsToScan)];
 
     if (commitsToScan.length === 0) {
-      console.log("KeySentinel: No new commits to scan.");
+      if (output.format !== "text") {
+        writeReport({ findings: [], suppressed: [], baselined: [] }, output, "off", []);
+      } else {
+        writeText(["KeySentinel: No new commits to scan."], output, console.log);
+      }
       process.exit(0);
     }
   } catch (e) {
@@ -277,30 +449,36 @@ function cmdScanPush(): void {
     process.exit(1);
   }
 
-  const config = loadConfigForCli({ cwd: gitRoot });
-  const patterns = getEnabledPatterns(config.patterns);
-  const allFindings: Finding[] = [];
-  let filesScanned = 0;
+  const config = loadConfigForCli({
+    cwd: gitRoot,
+    overrides: cliOverrides(),
+    logger: cliLogger(output),
+  });
+  const patterns = getEnabledPatterns(config.patterns, config.customPatterns, config.rules);
+  const filePatterns = getEnabledFilePatterns(
+    config.patterns,
+    config.customFilePatterns,
+    config.rules,
+  );
+  const patches: FilePatch[] = [];
 
-  // Scan each commit's changes
+  // Collect each commit's changes
   for (const commitSha of commitsToScan) {
     try {
       // Get files changed in this commit
       const files = runGit(gitRoot, ["diff-tree", "--no-commit-id", "--name-only", "-r", commitSha]);
       const fileList = files ? files.split("\n").map((f) => f.trim()).filter(Boolean) : [];
+      const added = runGit(gitRoot, ["diff-tree", "--no-commit-id", "--name-only", "--diff-filter=AC", "-r", commitSha]);
+      const newFiles = new Set(added ? added.split("\n").map((f) => f.trim()).filter(Boolean) : []);
       
       for (const filePath of fileList) {
         if (shouldIgnoreFile(filePath, config.ignore)) continue;
         
         // Get the diff for this file in this commit
         const patch = runGit(gitRoot, ["show", "--format=", commitSha, "--", filePath]);
-        const addedLines = extractAddedLines(patch);
-        
-        if (addedLines.length === 0) continue;
-        
-        const fileFindings = scanLines(filePath, addedLines, config, patterns);
-        allFindings.push(...fileFindings);
-        filesScanned++;
+
+        // Newly added files are also judged by their path, even if binary
+        patches.push({ file: filePath, isNew: newFiles.has(filePath), patch });
       }
     } catch (e) {
       // Skip commits that can't be accessed
@@ -308,80 +486,553 @@ function cmdScanPush(): void {
     }
   }
 
-  if (allFindings.length === 0) {
-    console.log(
-      `KeySentinel: No secrets detected in ${commitsToScan.length} commit(s) being pushed.`,
+  const { findings: allFindings } = await scanPatches(patches, config);
+  const triage = triageFindings(allFindings, config, gitRoot);
+
+  if (output.format !== "text") {
+    await verifyFindings(triage.findings, config.verify);
+    writeReport(triage, output, config.failOn, [...patterns, ...filePatterns]);
+    process.exit(shouldFail(triage.findings, config.failOn) ? 1 : 0);
+  }
+
+  if (triage.findings.length === 0) {
+    writeText(
+      [`KeySentinel: No secrets detected in ${commitsToScan.length} commit(s) being pushed${formatSkipped(triage)}.`],
+      output,
+      console.log,
     );
     process.exit(0);
   }
 
-  printFindings(allFindings, config.failOn, "push");
+  await verifyFindings(triage.findings, config.verify);
+  printFindings(triage, config.failOn, "push", output);
 }
 
-function printFindings(
+/**
+ * Warn about scan problems, e.g. custom patterns that ran out of their time budget
+ */
+function warnDiagnostics(diagnostics: ScanDiagnostic[]): void {
+  for (const diagnostic of diagnostics) console.error(`KeySentinel: ${diagnostic.message}.`);
+}
+
+/**
+ * Scan patches on the worker pool. A file counts as scanned when its patch adds
+ * lines, or when it was judged by its path and flagged.
+ */
+async function scanPatches(
+  patches: FilePatch[],
+  config: Config,
+): Promise<{ findings: Finding[]; filesScanned: number }> {
+  const jobs: ScanJob[] = patches.map(({ file, isNew, patch }) => ({
+    kind: "diff",
+    filename: file,
+    patch,
+    newFile: isNew,
+  }));
+  const results = await runScanJobs(jobs, config, config.concurrency);
+  warnDiagnostics(results.flatMap((result) => result.diagnostics));
+  let filesScanned = 0;
+  results.forEach((result, i) => {
+    if (extractAddedLines(patches[i].patch).length > 0 || result.findings.length > 0) filesScanned++;
+  });
+  return { findings: sortFindings(results.flatMap((result) => result.findings)), filesScanned };
+}
+
+interface Triage {
+  /** Findings to report */
+  findings: Finding[];
+  /** Findings silenced by inline markers */
+  suppressed: Finding[];
+  /** Findings accepted by the baseline */
+  baselined: Finding[];
+}
+
+/**
+ * Drop findings silenced inline or accepted by the baseline, and warn about
+ * baseline entries whose file no longer exists or was scanned in full without a match
+ */
+function triageFindings(
   allFindings: Finding[],
+  config: Config,
+  gitRoot: string,
+  fullyScanned?: Set<string>,
+): Triage {
+  const active = allFindings.filter((f) => !f.suppressed);
+  const baseline = loadBaseline(path.join(gitRoot, config.baseline), {
+    warn: (m) => console.warn(m),
+  });
+  const result = applyBaseline(active, baseline);
+
+  const stale = findStaleEntries(
+    baseline,
+    result.matched,
+    (file) => fs.existsSync(path.join(gitRoot, file)),
+    fullyScanned,
+  );
+  if (stale.length > 0) {
+    console.warn(
+      `KeySentinel: ${stale.length} baseline entr${stale.length === 1 ? "y" : "ies"} no longer match anything. Run "keysentinel baseline" to refresh ${config.baseline}.`,
+    );
+  }
+
+  return {
+    findings: result.findings,
+    suppressed: allFindings.filter((f) => f.suppressed),
+    baselined: result.baselined,
+  };
+}
+
+function formatSkipped(triage: Triage): string {
+  let text = "";
+  if (triage.suppressed.length > 0) text += `, ${triage.suppressed.length} suppressed inline`;
+  if (triage.baselined.length > 0) text += `, ${triage.baselined.length} in baseline`;
+  return text;
+}
+
+function printFindings(
+  triage: Triage,
   failOn: Severity | "off",
-  action: "commit" | "push",
+  action: "commit" | "push" | "scan" | "history",
+  output: OutputOptions,
 ): void {
+  const lines: string[] = [];
+  const log = (line: string): void => {
+    lines.push(line);
+  };
+  const allFindings = triage.findings;
   const highCount = allFindings.filter((f) => f.severity === "high").length;
   const mediumCount = allFindings.filter((f) => f.severity === "medium").length;
   const lowCount = allFindings.filter((f) => f.severity === "low").length;
   const willBlock = shouldFail(allFindings, failOn);
+  const isAudit = action === "scan" || action === "history";
+  const verdict = isAudit ? "SCAN FAILED" : `${action.toUpperCase()} BLOCKED`;
 
-  console.error("");
-  console.error("╔══════════════════════════════════════════════════════════════╗");
+  log("");
+  log("╔══════════════════════════════════════════════════════════════╗");
   if (willBlock) {
-    console.error("║  🚨 KEYSENTINEL: SECRET LEAK DETECTED — " + action.toUpperCase() + " BLOCKED" + " ".repeat(Math.max(0, 17 - action.length)) + "║");
+    log("║  🚨 KEYSENTINEL: SECRET LEAK DETECTED — " + verdict + " ".repeat(Math.max(0, 25 - verdict.length)) + "║");
   } else {
-    console.error("║  ⚠️  KEYSENTINEL: POTENTIAL SECRETS FOUND                    ║");
+    log("║  ⚠️  KEYSENTINEL: POTENTIAL SECRETS FOUND                    ║");
   }
-  console.error("╚══════════════════════════════════════════════════════════════╝");
-  console.error("");
-  console.error(`  Found ${allFindings.length} potential secret(s): 🔴 High: ${highCount}  🟠 Medium: ${mediumCount}  🟡 Low: ${lowCount}`);
-  console.error("");
+  log("╚══════════════════════════════════════════════════════════════╝");
+  log("");
+  log(`  Found ${allFindings.length} potential secret(s): 🔴 High: ${highCount}  🟠 Medium: ${mediumCount}  🟡 Low: ${lowCount}`);
+  if (triage.suppressed.length > 0) {
+    log(`  🔇 ${triage.suppressed.length} more suppressed by keysentinel:allow markers`);
+  }
+  if (triage.baselined.length > 0) {
+    log(`  🗃️  ${triage.baselined.length} more accepted by the baseline`);
+  }
+  log("");
 
   for (let i = 0; i < allFindings.length; i++) {
     const f = allFindings[i];
     const sevIcon = f.severity === "high" ? "🔴" : f.severity === "medium" ? "🟠" : "🟡";
-    const line = f.line != null ? String(f.line) : "?";
+    const location = f.line != null ? `${f.file}:${formatLineRange(f)}` : f.file;
     const snippet = f.snippet.replace(/\n/g, " ");
-    console.error(`  ${sevIcon} Finding #${i + 1}: ${f.type}`);
-    console.error(`     File: ${f.file}:${line}`);
-    console.error(`     Preview: ${snippet}`);
-    console.error(`     Masked value: ${maskSecret(f.rawValue)}`);
-    console.error(`     🔧 Fix: ${f.remediation}`);
-    console.error("");
+    log(`  ${sevIcon} Finding #${i + 1}: ${f.type}`);
+    log(`     Rule: ${f.ruleId}`);
+    log(`     File: ${location}`);
+    if (f.keyPath) {
+      log(`     Key: ${f.keyPath}`);
+    }
+    if (f.commit) {
+      log(`     Commit: ${f.commit.sha.slice(0, 12)} by ${f.commit.author} <${f.commit.email}> on ${f.commit.date}`);
+      log(`     Still present: ${f.presentAtHead ? "yes" : "no, removed since (the secret stays in history)"}`);
+    }
+    // File findings are about the path itself; there is no value to preview
+    if (f.line != null) {
+      log(`     Preview: ${snippet}`);
+      log(`     Masked value: ${maskSecret(f.rawValue)}`);
+    }
+    if (f.encoding) {
+      log(`     Decoded from: ${f.encoding.join(" -> ")}`);
+    }
+    if (f.verified) {
+      log(`     Verified: ${f.verified === "active" ? "🚨 active" : f.verified}`);
+    }
+    log(`     🔧 Fix: ${f.remediation}`);
+    log("");
   }
 
-  console.error("────────────────────────────────────────────────────────────────");
-  console.error("");
+  log("────────────────────────────────────────────────────────────────");
+  log("");
 
   if (willBlock) {
-    console.error(`  ❌ ${action.toUpperCase()} BLOCKED: Secrets at or above "${failOn}" severity found.`);
-    console.error("");
-    console.error("  To fix this:");
-    console.error(`    1. Remove the secret from your code`);
-    console.error(`    2. Use environment variables or a .env file (added to .gitignore)`);
-    console.error(`    3. Rotate/revoke the leaked credential (see fix instructions above)`);
-    console.error(`    4. Stage your fixes: git add <file>`);
+    log(`  ❌ ${verdict}: Secrets at or above "${failOn}" severity found.`);
+    log("");
+    log("  To fix this:");
+    log(`    1. Remove the secret from your code`);
+    log(`    2. Use environment variables or a .env file (added to .gitignore)`);
+    log(`    3. Rotate/revoke the leaked credential (see fix instructions above)`);
+    if (!isAudit) {
+      log(`    4. Stage your fixes: git add <file>`);
+    }
+    if (action === "history") {
+      log(`    4. Removing a secret does not remove it from history: rotate it even if it is gone`);
+    }
     if (action === "push") {
-      console.error(`    5. Amend the commit: git commit --amend`);
-      console.error(`    6. Push again: git push --force-with-lease`);
-    }
-    console.error("");
-    console.error("  False positive? Add to .keysentinel.yml:");
-    console.error("    allowlist:");
-    console.error("      - 'YOUR_PATTERN_HERE'");
-    console.error("");
+      log(`    5. Amend the commit: git commit --amend`);
+      log(`    6. Push again: git push --force-with-lease`);
+    }
+    log("");
+    log("  False positive? Add to .keysentinel.yml:");
+    log("    allowlist:");
+    log("      - 'YOUR_PATTERN_HERE'");
+    log("  Or mark the line: // keysentinel:allow reason=\"test fixture\"");
+    log("  Existing secrets in a legacy repo? Accept them with: keysentinel baseline");
+    log("");
+    writeText(lines, output);
     process.exit(1);
   }
 
-  console.error(`  ⚠️  Secrets found but below "${failOn}" threshold. ${action === "commit" ? "Commit" : "Push"} allowed.`);
-  console.error(`     Current threshold: ${failOn}. Adjust in .keysentinel.yml if needed.`);
-  console.error("");
+  const allowed = isAudit ? "Scan passed" : `${action === "commit" ? "Commit" : "Push"} allowed`;
+  log(`  ⚠️  Secrets found but below "${failOn}" threshold. ${allowed}.`);
+  log(`     Current threshold: ${failOn}. Adjust in .keysentinel.yml if needed.`);
+  log("");
+  writeText(lines, output);
   process.exit(0);
 }
 
+// Files larger than this are too big to be hand-written config or source; skip them
+const MAX_FULL_SCAN_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Scan whole files on the worker pool, like scanFiles. Paths are reported
+ * relative to `root`; binary and oversized files are only judged by their path.
+ */
+async function scanWholeFiles(
+  files: string[],
+  config: Config,
+  root: string,
+  onSkip: (file: string, reason: SkipReason | "ignored") => void,
+): Promise<Finding[]> {
+  const jobs: ScanJob[] = files.map((file) => ({
+    kind: "file",
+    file,
+    cwd: root,
+    maxFileBytes: MAX_FULL_SCAN_FILE_BYTES,
+  }));
+  const results = await runScanJobs(jobs, config, config.concurrency);
+  warnDiagnostics(results.flatMap((result) => result.diagnostics));
+  results.forEach((result, i) => {
+    if (result.skipped) {
+      onSkip(path.relative(root, path.resolve(root, files[i])).split(path.sep).join("/"), result.skipped);
+    }
+  });
+  return sortFindings(results.flatMap((result) => result.findings));
+}
+
+async function cmdBaseline(): Promise<void> {
+  const cwd = process.cwd();
+  const gitRoot = findGitRoot(cwd);
+  if (!gitRoot) {
+    console.error("keysentinel: not a git repository. Run from a repo root.");
+    process.exit(1);
+  }
+
+  const config = loadConfigForCli({ cwd: gitRoot, overrides: cliOverrides() });
+  const baselinePath = path.join(gitRoot, config.baseline);
+  const previous = loadBaseline(baselinePath, { warn: (m) => console.warn(m) });
+
+  // Accept everything currently tracked, whole files rather than a diff
+  const fileList = runGit(gitRoot, ["ls-files", "-z"]).split("\0").filter(Boolean);
+  let filesScanned = fileList.length;
+  // Binary and oversized files are only judged by their path
+  const allFindings = await scanWholeFiles(fileList, config, gitRoot, () => {
+    filesScanned--;
+  });
+
+  const baseline = createBaseline(allFindings.filter((f) => !f.suppressed));
+  writeBaseline(baselinePath, baseline);
+
+  console.log(
+    `KeySentinel: wrote ${baseline.entries.length} baseline entr${baseline.entries.length === 1 ? "y" : "ies"} to ${config.baseline} (scanned ${filesScanned} file(s)).`,
+  );
+
+  if (previous) {
+    const current = new Set(baseline.entries.map((e) => e.fingerprint));
+    const known = new Set(previous.entries.map((e) => e.fingerprint));
+    const stale = previous.entries.filter((e) => !current.has(e.fingerprint));
+    const added = baseline.entries.filter((e) => !known.has(e.fingerprint));
+    console.log(`  ${added.length} new, ${stale.length} stale entr${stale.length === 1 ? "y" : "ies"} removed.`);
+    for (const entry of stale) {
+      console.log(`  - ${entry.file}: ${entry.ruleId} (${entry.fingerprint.slice(0, 12)})`);
+    }
+  }
+  console.log("  Commit the baseline file; only findings not in it will block commits and PRs.");
+}
+
+async function cmdScanDir(): Promise<void> {
+  const output = cliOutputOptions();
+  const target = path.resolve(positionalArgs()[0] ?? ".");
+  if (!fs.existsSync(target) || !fs.statSync(target).isDirectory()) {
+    console.error(`keysentinel: ${target} is not a directory.`);
+    process.exit(1);
+  }
+
+  // Inside a repository, paths are repo-relative so config globs and the baseline line up
+  const root = findGitRoot(target) ?? target;
+  const config = loadConfigForCli({
+    cwd: root,
+    overrides: cliOverrides(),
+    logger: cliLogger(output),
+  });
+  const patterns = getEnabledPatterns(config.patterns, config.customPatterns, config.rules);
+  const filePatterns = getEnabledFilePatterns(
+    config.patterns,
+    config.customFilePatterns,
+    config.rules,
+  );
+
+  const files = listFiles(root, target, config.ignore);
+  const fullyScanned = new Set(files);
+  const skipped: string[] = [];
+
+  // Binary and oversized files are still judged by their path
+  const allFindings = await scanWholeFiles(files, config, root, (file, reason) => {
+    fullyScanned.delete(file);
+    skipped.push(`${file} (${reason})`);
+  });
+
+  if (skipped.length > 0) {
+    const log = output.format === "text" ? console.log : console.error;
+    log(`KeySentinel: skipped ${skipped.length} binary, oversized or unreadable file(s).`);
+    if (process.argv.includes("--verbose")) {
+      for (const file of skipped) log(`  - ${file}`);
+    }
+  }
+
+  const triage = triageFindings(allFindings, config, root, fullyScanned);
+
+  if (output.format !== "text") {
+    await verifyFindings(triage.findings, config.verify);
+    writeReport(triage, output, config.failOn, [...patterns, ...filePatterns]);
+    process.exit(shouldFail(triage.findings, config.failOn) ? 1 : 0);
+  }
+
+  if (triage.findings.length === 0) {
+    writeText(
+      [`KeySentinel: No secrets detected (scanned ${fullyScanned.size} file(s)${formatSkipped(triage)}).`],
+      output,
+      console.log,
+    );
+    process.exit(0);
+  }
+
+  await verifyFindings(triage.findings, config.verify);
+  printFindings(triage, config.failOn, "scan", output);
+}
+
+/**
+ * Scan whole files named on the command line; `-` reads standard input, reported
+ * under --stdin-filename (which also picks the config file parser, e.g. `secret.yaml`)
+ */
+async function cmdScanFiles(fileArgs: string[]): Promise<void> {
+  const output = cliOutputOptions();
+  const cwd = process.cwd();
+  const root = findGitRoot(cwd) ?? cwd;
+  const config = loadConfigForCli({
+    cwd: root,
+    overrides: cliOverrides(),
+    logger: cliLogger(output),
+  });
+  const patterns = getEnabledPatterns(config.patterns, config.customPatterns, config.rules);
+  const filePatterns = getEnabledFilePatterns(
+    config.patterns,
+    config.customFilePatterns,
+    config.rules,
+  );
+
+  const allFindings: Finding[] = [];
+  const filePaths = [...new Set(fileArgs)].filter((arg) => arg !== "-");
+  let filesScanned = 0;
+
+  if (fileArgs.includes("-")) {
+    const filename = argValue("--stdin-filename") ?? "stdin";
+    let content: string;
+    try {
+      content = fs.readFileSync(process.stdin.fd, "utf8");
+    } catch {
+      content = "";
+    }
+    if (content.includes("\0")) {
+      console.error("KeySentinel: skipped standard input (binary).");
+    } else if (!shouldIgnoreFile(filename, config.ignore)) {
+      const context = createScanContext();
+      allFindings.push(...scanText(content, { config, filename, newFile: true, context }));
+      warnDiagnostics(context.diagnostics);
+      filesScanned++;
+    }
+  }
+
+  // Paths are repo-relative, so config globs and the baseline line up
+  allFindings.push(
+    ...(await scanWholeFiles(
+      filePaths.map((file) => path.resolve(cwd, file)),
+      config,
+      root,
+      (file, reason) => {
+        filesScanned--;
+        if (reason !== "ignored") console.error(`KeySentinel: skipped ${file} (${reason}).`);
+      },
+    )),
+  );
+  filesScanned += filePaths.length;
+
+  const triage = triageFindings(allFindings, config, root);
+
+  if (output.format !== "text") {
+    await verifyFindings(triage.findings, config.verify);
+    writeReport(triage, output, config.failOn, [...patterns, ...filePatterns]);
+    process.exit(shouldFail(triage.findings, config.failOn) ? 1 : 0);
+  }
+
+  if (triage.findings.length === 0) {
+    writeText(
+      [`KeySentinel: No secrets detected (scanned ${filesScanned} file(s)${formatSkipped(triage)}).`],
+      output,
+      console.log,
+    );
+    process.exit(0);
+  }
+
+  await verifyFindings(triage.findings, config.verify);
+  printFindings(triage, config.failOn, "scan", output);
+}
+
+/**
+ * `config validate`: check .keysentinel.yml (or --config) and exit non-zero on any problem.
+ * `config print`: show the effective config and where each value came from.
+ */
+function cmdConfig(): void {
+  const action = positionalArgs()[0];
+  const cwd = process.cwd();
+  const root = findGitRoot(cwd) ?? cwd;
+  const configArg = argValue("--config");
+  const configPath = configArg ? path.resolve(cwd, configArg) : path.join(root, ".keysentinel.yml");
+  const displayPath = path.relative(cwd, configPath) || configPath;
+
+  if (action === "validate") {
+    if (!fs.existsSync(configPath)) {
+      console.error(`keysentinel: no config file at ${displayPath}.`);
+      process.exit(1);
+    }
+    const problems: string[] = [];
+    loadConfigForCli({
+      cwd: root,
+      configPath,
+      logger: { warn: (m) => problems.push(m.replace(`${configPath}: `, "")) },
+    });
+    if (problems.length === 0) {
+      console.log(`KeySentinel: ${displayPath} is valid.`);
+      process.exit(0);
+    }
+    console.error(`KeySentinel: ${problems.length} problem(s) in ${displayPath}:`);
+    for (const problem of problems) console.error(`  ✗ ${problem}`);
+    process.exit(1);
+  }
+
+  if (action === "print") {
+    const format = argValue("--format") ?? "text";
+    if (format !== "text" && format !== "json") {
+      console.error(`keysentinel: config print supports --format text or json, not "${format}".`);
+      process.exit(1);
+    }
+    const layers = loadConfigLayers({
+      cwd: root,
+      configPath,
+      overrides: cliOverrides(),
+      overridesOrigin: "command line",
+      logger: { warn: (m) => console.error(m) },
+    });
+    const values = describeConfig(layers);
+
+    if (format === "json") {
+      process.stdout.write(JSON.stringify(values, null, 2) + "\n");
+      process.exit(0);
+    }
+    const rows = values.map((v) => [v.path, JSON.stringify(v.value), v.origin]);
+    const pathWidth = Math.min(40, Math.max(...rows.map((r) => r[0].length)));
+    const valueWidth = Math.min(50, Math.max(...rows.map((r) => r[1].length)));
+    console.log(`KeySentinel effective config (sources: ${layers.map((l) => l.origin).join(" < ")})\n`);
+    for (const [key, value, origin] of rows) {
+      console.log(`  ${key.padEnd(pathWidth)}  ${value.padEnd(valueWidth)}  ${origin}`);
+    }
+    process.exit(0);
+  }
+
+  console.error("keysentinel: use config validate or config print.");
+  process.exit(1);
+}
+
+async function cmdHistory(): Promise<void> {
+  const output = cliOutputOptions();
+  const gitRoot = findGitRoot(process.cwd());
+  if (!gitRoot) {
+    console.error("keysentinel: not a git repository. Run from a repo root.");
+    process.exit(1);
+  }
+
+  const options: HistoryOptions = {
+    since: argValue("--since"),
+    branch: argValue("--branch"),
+    all: process.argv.includes("--all"),
+  };
+  if (options.all && options.branch) {
+    console.error("keysentinel: use either --branch or --all, not both.");
+    process.exit(1);
+  }
+
+  const config = loadConfigForCli({
+    cwd: gitRoot,
+    overrides: cliOverrides(),
+    logger: cliLogger(output),
+  });
+  const patterns = getEnabledPatterns(config.patterns, config.customPatterns, config.rules);
+  const filePatterns = getEnabledFilePatterns(
+    config.patterns,
+    config.customFilePatterns,
+    config.rules,
+  );
+
+  let result: HistoryResult;
+  try {
+    // Progress goes to stderr, and only to a terminal
+    const progress = process.stderr.isTTY
+      ? (done: number, total: number): void => {
+          if (done % 100 === 0) process.stderr.write(`\rKeySentinel: scanning commit ${done + 1}/${total}...`);
+        }
+      : undefined;
+    result = scanHistory(gitRoot, options, config, patterns, filePatterns, progress);
+    if (progress) process.stderr.write("\r\x1b[K");
+    warnDiagnostics(result.diagnostics);
+  } catch (e) {
+    console.error("keysentinel: failed to read the git history:", (e as Error).message);
+    process.exit(1);
+  }
+
+  const triage = triageFindings(result.findings, config, gitRoot);
+
+  if (output.format !== "text") {
+    await verifyFindings(triage.findings, config.verify);
+    writeReport(triage, output, config.failOn, [...patterns, ...filePatterns]);
+    process.exit(shouldFail(triage.findings, config.failOn) ? 1 : 0);
+  }
+
+  if (triage.findings.length === 0) {
+    writeText(
+      [`KeySentinel: No secrets detected in ${result.commitsScanned} commit(s)${formatSkipped(triage)}.`],
+      output,
+      console.log,
+    );
+    process.exit(0);
+  }
+
+  await verifyFindings(triage.findings, config.verify);
+  printFindings(triage, config.failOn, "history", output);
+}
+
 function askQuestion(rl: readline.Interface, question: string): Promise<string> {
   return new Promise((resolve) => {
     rl.question(question, (answer) => {
@@ -467,6 +1118,8 @@ async function cmdInit(): Promise<void> {
     { key: "twilio", name: "Twilio Keys" },
     { key: "sendgrid", name: "SendGrid Keys" },
     { key: "mailchimp", name: "Mailchimp Keys" },
+    { key: "infra", name: "Infrastructure Manifests (Kubernetes, Helm, Terraform, Compose)" },
+    { key: "files", name: "Sensitive Files (private keys, keystores, Terraform state)" },
   ];
 
   const enableAll = await askQuestion(rl, "Enable all pattern groups? (Y/n) [Y]: ");
@@ -605,6 +1258,13 @@ async function cmdInit(): Promise<void> {
   console.log("");
 }
 
+function runAsync(command: Promise<void>): void {
+  command.catch((e) => {
+    console.error("Error:", e);
+    process.exit(1);
+  });
+}
+
 function main(): void {
   const arg = process.argv[2];
   if (arg === "install") {
@@ -618,16 +1278,40 @@ function main(): void {
     });
     return;
   }
-  if (arg === "scan") {
-    cmdScan();
+  if (arg === "scan" && positionalArgs().length > 0) {
+    runAsync(cmdScanFiles(positionalArgs()));
+    return;
+  }
+  if (arg === "scan-files") {
+    if (positionalArgs().length === 0) {
+      console.error("keysentinel: scan-files needs at least one file (or - for standard input).");
+      process.exit(1);
+    }
+    runAsync(cmdScanFiles(positionalArgs()));
+    return;
+  }
+  if (arg === "scan" || arg === undefined || arg === "" || arg === "--verify") {
+    runAsync(cmdScan());
     return;
   }
   if (arg === "scan-push") {
-    cmdScanPush();
+    runAsync(cmdScanPush());
     return;
   }
-  if (arg === undefined || arg === "") {
-    cmdScan();
+  if (arg === "scan-dir") {
+    runAsync(cmdScanDir());
+    return;
+  }
+  if (arg === "history") {
+    runAsync(cmdHistory());
+    return;
+  }
+  if (arg === "baseline") {
+    runAsync(cmdBaseline());
+    return;
+  }
+  if (arg === "config") {
+    cmdConfig();
     return;
   }
   if (arg === "--help" || arg === "-h") {
@@ -637,9 +1321,36 @@ Usage:
   keysentinel init         Run configuration wizard
   keysentinel install      Install pre-commit and pre-push hooks
   keysentinel scan         Scan staged files for secrets (for pre-commit)
+  keysentinel scan -       Scan standard input, e.g. kubectl get secret -o yaml | keysentinel scan -
+  keysentinel scan-files <file>...
+                           Scan the given files in full (for editors and pre-commit)
   keysentinel scan-push    Scan commits being pushed (for pre-push)
+  keysentinel scan-dir [path]
+                           Scan every file in a directory (default: current),
+                           honouring .gitignore; works outside a git repository
+  keysentinel history      Scan every commit in the history of HEAD, attributing
+                           each secret to the commit that introduced it
+  keysentinel baseline     Accept all current findings in .keysentinel-baseline.json
+  keysentinel config validate
+                           Check .keysentinel.yml; exits non-zero on any problem
+  keysentinel config print Show the effective config and where each value came from
   keysentinel --help       Show this help
 
+Options:
+  --verify                 Check findings against their provider (sends credentials to it)
+  --format <format>        Report format for every scan command:
+                           text (default), json, junit, csv or sarif
+  --output <file>          Write the report to a file instead of the terminal
+  --verbose                List the files scan-dir skipped
+  --jobs <n>               Worker threads scanning files in parallel (default:
+                           one per CPU, or "concurrency" from the config)
+  --stdin-filename <name>  Name to report standard input under (default: stdin);
+                           its extension selects the config file parser
+  --since <date>           history: only commits after this date (e.g. 2024-01-01)
+  --branch <ref>           history: walk this branch instead of HEAD
+  --all                    history: walk every branch and tag
+  --config <file>          config: the config file to check instead of .keysentinel.yml
+
 Config: .keysentinel.yml in repo root (same as GitHub Action).
 `);
     process.exit(0);
@@ -650,4 +1361,4 @@ Config: .keysentinel.yml in repo root (same as GitHub Action).
   process.exit(1);
 }
 
-main();
+if (isMainThread) main();
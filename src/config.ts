@@ -2,11 +2,27 @@
  * Configuration handling for KeySentinel
  */
 
-import * as core from "@actions/core";
 import * as fs from "fs";
 import * as path from "path";
 import * as yaml from "js-yaml";
-import { Severity, EntropyConfig } from "./patterns";
+import {
+  Severity,
+  Confidence,
+  EntropyConfig,
+  SecretPattern,
+  RuleOverride,
+  SECRET_PATTERNS,
+  ENTROPY_RULE_ID,
+  CONFIG_SECRET_RULE_ID,
+  MANIFEST_RULES,
+  toRuleId,
+} from "./patterns";
+import { VerifyConfig } from "./verify";
+import { DecodeConfig } from "./decode";
+import { FilePattern, SENSITIVE_FILE_PATTERNS } from "./filenames";
+import { ScanContext, execAllWithBudget, findReDoSRisk } from "./redos";
+import { mergeYamlConfigs, resolveExtendsSpec } from "./extends";
+import { closestMatch, formatConfigIssue, validateYamlConfig } from "./schema";
 
 export interface Config {
   failOn: Severity | "off";
@@ -15,7 +31,16 @@ export interface Config {
   allowlist: RegExp[];
   maxFiles: number;
   patterns: Record<string, boolean>;
+  customPatterns: SecretPattern[];
+  customFilePatterns: FilePattern[];
+  rules: Record<string, RuleOverride>;
   entropy: EntropyConfig;
+  decode: DecodeConfig;
+  verify: VerifyConfig;
+  /** Baseline file of accepted findings, relative to the repository root */
+  baseline: string;
+  /** Worker threads scanning files in parallel; 0 picks one per CPU */
+  concurrency: number;
 }
 
 /** Overrides for config (e.g. from Action inputs or CLI flags). */
@@ -25,6 +50,8 @@ export interface ConfigOverrides {
   ignore?: string;
   allowlist?: string;
   maxFiles?: number;
+  verify?: boolean;
+  concurrency?: string | number;
 }
 
 export interface ConfigLogger {
@@ -33,19 +60,62 @@ export interface ConfigLogger {
   info?(message: string): void;
 }
 
+interface YamlCustomPattern {
+  id?: string;
+  name?: string;
+  regex?: string;
+  severity?: string;
+  group?: string;
+  capture_group?: number;
+  keywords?: string[];
+  remediation?: string;
+}
+
+interface YamlCustomFilePattern {
+  id?: string;
+  name?: string;
+  path?: string;
+  content?: string;
+  severity?: string;
+  group?: string;
+  remediation?: string;
+}
+
+interface YamlRuleOverride {
+  enabled?: boolean;
+  severity?: string;
+  confidence?: string;
+}
+
 interface YamlConfig {
+  /** Configs this one builds on: file paths or npm packages (see extends.ts) */
+  extends?: string | string[];
   fail_on?: string;
   post_no_findings?: boolean;
   ignore?: string[];
   allowlist?: string[];
   max_files?: number;
   patterns?: Record<string, boolean>;
+  custom_patterns?: YamlCustomPattern[];
+  custom_file_patterns?: YamlCustomFilePattern[];
+  rules?: Record<string, boolean | YamlRuleOverride>;
   entropy?: {
     enabled?: boolean;
     min_length?: number;
     threshold?: number;
     ignore_base64_like?: boolean;
   };
+  decode?: {
+    enabled?: boolean;
+    max_depth?: number;
+  };
+  verify?: {
+    enabled?: boolean;
+    base_urls?: Record<string, string>;
+    timeout_ms?: number;
+  };
+  baseline?: string;
+  concurrency?: number | string;
 }
 
 const DEFAULT_IGNORE = [
@@ -69,6 +139,7 @@ const DEFAULT_IGNORE = [
   "*.md",
   "LICENSE*",
   "CHANGELOG*",
+  ".keysentinel-baseline.json",
 ];
 
 const DEFAULT_ENTROPY_CONFIG: EntropyConfig = {
@@ -87,6 +158,240 @@ function parseSeverity(value: string, logger?: ConfigLogger): Severity | "off" {
   return "high";
 }
 
+const DEFAULT_DECODE_CONFIG: DecodeConfig = {
+  enabled: true,
+  maxDepth: 3,
+};
+
+export const DEFAULT_BASELINE_PATH = ".keysentinel-baseline.json";
+
+const DEFAULT_VERIFY_CONFIG: VerifyConfig = {
+  enabled: false,
+  baseUrls: {},
+  timeoutMs: 5000,
+};
+
+const BUILT_IN_RULE_IDS = [
+  ...SECRET_PATTERNS.map((p) => p.id),
+  ...SENSITIVE_FILE_PATTERNS.map((p) => p.id),
+  ...Object.values(MANIFEST_RULES).map((r) => r.id),
+  ENTROPY_RULE_ID,
+  CONFIG_SECRET_RULE_ID,
+];
+
+const DEFAULT_CUSTOM_REMEDIATION =
+  "Remove this value from source code and rotate it. Store it in environment variables or a secrets manager instead.";
+
+function parseLevel(value: unknown): Severity | undefined {
+  const normalized = String(value).toLowerCase().trim();
+  if (["high", "medium", "low"].includes(normalized)) {
+    return normalized as Severity;
+  }
+  return undefined;
+}
+
+/**
+ * Reject a user regex that may backtrack catastrophically (see redos.ts), with a warning
+ */
+function isSafeRegex(source: string, label: string, logger?: ConfigLogger): boolean {
+  const risk = findReDoSRisk(source);
+  if (risk === null) return true;
+  logger?.warn?.(`Rejected ${label} "${source}": it may backtrack catastrophically (${risk})`);
+  return false;
+}
+
+function parseCustomPatterns(
+  rules: YamlCustomPattern[],
+  logger?: ConfigLogger,
+): SecretPattern[] {
+  const patterns: SecretPattern[] = [];
+  const usedIds = new Set<string>([
+    ...BUILT_IN_RULE_IDS,
+  ]);
+
+  for (const rule of rules) {
+    if (!rule || typeof rule !== "object" || !rule.name || !rule.regex) {
+      logger?.warn?.(
+        `Invalid custom pattern ${JSON.stringify(rule)}: "name" and "regex" are required`,
+      );
+      continue;
+    }
+
+    let regex: RegExp;
+    try {
+      regex = new RegExp(rule.regex, "g");
+    } catch (e) {
+      logger?.warn?.(`Invalid custom pattern regex "${rule.regex}": ${e}`);
+      continue;
+    }
+    if (!isSafeRegex(rule.regex, `custom pattern regex for "${rule.name}"`, logger)) continue;
+
+    const id = rule.id ? String(rule.id) : toRuleId(rule.name);
+    if (usedIds.has(id)) {
+      logger?.warn?.(
+        `Duplicate rule id "${id}" for custom pattern "${rule.name}", skipping`,
+      );
+      continue;
+    }
+    usedIds.add(id);
+
+    let severity: Severity = "medium";
+    if (rule.severity !== undefined) {
+      const parsed = parseLevel(rule.severity);
+      if (parsed) {
+        severity = parsed;
+      } else {
+        logger?.warn?.(
+          `Invalid severity "${rule.severity}" for custom pattern "${rule.name}", defaulting to "medium"`,
+        );
+      }
+    }
+
+    let keywords: string[] | undefined;
+    if (rule.keywords !== undefined) {
+      if (Array.isArray(rule.keywords) && rule.keywords.every((k) => typeof k === "string" && k.length > 0)) {
+        keywords = rule.keywords;
+      } else {
+        logger?.warn?.(
+          `Invalid keywords for custom pattern "${rule.name}": expected a list of non-empty strings, ignoring them`,
+        );
+      }
+    }
+
+    patterns.push({
+      id,
+      name: rule.name,
+      pattern: regex,
+      keywords,
+      severity,
+      group: rule.group ?? "custom",
+      remediation: rule.remediation ?? DEFAULT_CUSTOM_REMEDIATION,
+      captureGroup:
+        typeof rule.capture_group === "number" ? rule.capture_group : undefined,
+      budgeted: true,
+    });
+  }
+
+  return patterns;
+}
+
+function parseCustomFilePatterns(
+  rules: YamlCustomFilePattern[],
+  takenIds: Set<string>,
+  logger?: ConfigLogger,
+): FilePattern[] {
+  const patterns: FilePattern[] = [];
+  const usedIds = new Set<string>([...BUILT_IN_RULE_IDS, ...takenIds]);
+
+  for (const rule of rules) {
+    if (!rule || typeof rule !== "object" || !rule.name || !rule.path) {
+      logger?.warn?.(
+        `Invalid custom file pattern ${JSON.stringify(rule)}: "name" and "path" are required`,
+      );
+      continue;
+    }
+
+    let pathRegex: RegExp;
+    let contentRegex: RegExp | undefined;
+    try {
+      pathRegex = new RegExp(rule.path, "i");
+      contentRegex = rule.content ? new RegExp(rule.content) : undefined;
+    } catch (e) {
+      logger?.warn?.(`Invalid custom file pattern regex for "${rule.name}": ${e}`);
+      continue;
+    }
+    if (!isSafeRegex(rule.path, `custom file pattern path for "${rule.name}"`, logger)) continue;
+    if (rule.content && !isSafeRegex(rule.content, `custom file pattern content for "${rule.name}"`, logger)) continue;
+
+    const id = rule.id ? String(rule.id) : toRuleId(rule.name);
+    if (usedIds.has(id)) {
+      logger?.warn?.(
+        `Duplicate rule id "${id}" for custom file pattern "${rule.name}", skipping`,
+      );
+      continue;
+    }
+    usedIds.add(id);
+
+    let severity: Severity = "high";
+    if (rule.severity !== undefined) {
+      const parsed = parseLevel(rule.severity);
+      if (parsed) {
+        severity = parsed;
+      } else {
+        logger?.warn?.(
+          `Invalid severity "${rule.severity}" for custom file pattern "${rule.name}", defaulting to "high"`,
+        );
+      }
+    }
+
+    patterns.push({
+      id,
+      name: rule.name,
+      pattern: pathRegex,
+      contentPattern: contentRegex,
+      severity,
+      group: rule.group ?? "files",
+      remediation: rule.remediation ?? DEFAULT_CUSTOM_REMEDIATION,
+      budgeted: true,
+    });
+  }
+
+  return patterns;
+}
+
+function parseRuleOverrides(
+  rules: Record<string, boolean | YamlRuleOverride>,
+  knownIds: Set<string>,
+  logger?: ConfigLogger,
+): Record<string, RuleOverride> {
+  const overrides: Record<string, RuleOverride> = {};
+
+  for (const [id, setting] of Object.entries(rules)) {
+    if (!knownIds.has(id)) {
+      const suggestion = closestMatch(id, [...knownIds]);
+      logger?.warn?.(
+        `Unknown rule id "${id}" in rules config` + (suggestion ? `; did you mean "${suggestion}"?` : ""),
+      );
+    }
+
+    // Shorthand: `rule-id: false` disables the rule
+    if (typeof setting === "boolean") {
+      overrides[id] = { enabled: setting };
+      continue;
+    }
+    if (!setting || typeof setting !== "object") {
+      logger?.warn?.(`Invalid settings for rule "${id}", ignoring`);
+      continue;
+    }
+
+    const override: RuleOverride = {};
+    if (setting.enabled !== undefined) {
+      override.enabled = setting.enabled !== false;
+    }
+    if (setting.severity !== undefined) {
+      override.severity = parseLevel(setting.severity);
+      if (!override.severity) {
+        logger?.warn?.(
+          `Invalid severity "${setting.severity}" for rule "${id}", ignoring`,
+        );
+      }
+    }
+    if (setting.confidence !== undefined) {
+      override.confidence = parseLevel(setting.confidence) as
+        | Confidence
+        | undefined;
+      if (!override.confidence) {
+        logger?.warn?.(
+          `Invalid confidence "${setting.confidence}" for rule "${id}", ignoring`,
+        );
+      }
+    }
+    overrides[id] = override;
+  }
+
+  return overrides;
+}
+
 function parseIgnoreGlobs(input: string): string[] {
   if (!input || input.trim() === "") return [];
   return input
@@ -109,7 +414,8 @@ function parseAllowlistPatterns(
 
   for (const part of parts) {
     try {
-      patterns.push(new RegExp(part, "gi"));
+      const regex = new RegExp(part, "gi");
+      if (isSafeRegex(part, "allowlist regex", logger)) patterns.push(regex);
     } catch (e) {
       logger?.warn?.(`Invalid allowlist regex "${part}": ${e}`);
     }
@@ -119,13 +425,23 @@ function parseAllowlistPatterns(
 }
 
 /**
- * Load YAML config from path. Uses logger for messages (Action passes core, CLI uses console).
+ * Parse a worker count: a non-negative integer, or "auto" (0) for one per CPU
  */
-export function loadYamlConfig(
-  configPath: string,
-  logger?: ConfigLogger,
-): YamlConfig | null {
-  const log = logger ?? console;
+function parseConcurrency(value: unknown, logger?: ConfigLogger): number {
+  if (value === "auto") return 0;
+  const n = typeof value === "number" ? value : Number(value);
+  if (Number.isInteger(n) && n >= 0) return n;
+  logger?.warn?.(`Invalid concurrency "${value}", using one worker per CPU`);
+  return 0;
+}
+
+/** A config file, as read; its bases are separate sources */
+export interface ConfigSource {
+  path: string;
+  config: YamlConfig;
+}
+
+function readYamlFile(configPath: string, log: ConfigLogger): YamlConfig | null {
   try {
     if (!fs.existsSync(configPath)) {
       log.debug?.(`Config file not found at ${configPath}`);
@@ -133,21 +449,101 @@ export function loadYamlConfig(
     }
 
     const content = fs.readFileSync(configPath, "utf8");
-    const parsed = yaml.load(content) as YamlConfig;
+    const parsed = yaml.load(content);
 
     if (!parsed || typeof parsed !== "object") {
       log.warn?.(`Invalid config file at ${configPath}`);
       return null;
     }
 
+    // Invalid values are reported and left out, so their defaults apply
+    const { config, issues } = validateYamlConfig(parsed);
+    for (const issue of issues) {
+      log.warn?.(`${configPath}: ${formatConfigIssue(issue)}`);
+    }
+
     log.info?.(`Loaded config from ${configPath}`);
-    return parsed;
+    return config as YamlConfig;
   } catch (e) {
     log.warn?.(`Failed to load config file ${configPath}: ${e}`);
     return null;
   }
 }
 
+function withoutExtends(yamlConfig: YamlConfig): YamlConfig {
+  const own = { ...yamlConfig };
+  delete own.extends;
+  return own;
+}
+
+/**
+ * The configs a config extends, in merge order, each preceded by its own bases.
+ * `chain` holds the files being loaded, from the outermost, to detect cycles.
+ */
+function resolveExtends(
+  yamlConfig: YamlConfig,
+  fromDir: string,
+  log: ConfigLogger,
+  chain: string[],
+): ConfigSource[] {
+  if (yamlConfig.extends === undefined) return [];
+  const specs = Array.isArray(yamlConfig.extends) ? yamlConfig.extends : [yamlConfig.extends];
+  const display = (file: string): string => path.relative(process.cwd(), file) || file;
+  const from = chain.length > 0 ? ` in ${display(chain[chain.length - 1])}` : "";
+
+  const sources: ConfigSource[] = [];
+  for (const spec of specs) {
+    let file: string;
+    try {
+      file = resolveExtendsSpec(spec, fromDir);
+    } catch (e) {
+      log.warn?.(`Cannot resolve extends "${spec}"${from}: ${(e as Error).message}`);
+      continue;
+    }
+    if (chain.includes(file)) {
+      log.warn?.(
+        `Config extends cycle: ${[...chain, file].map(display).join(" -> ")}; ignoring extends "${spec}"${from}`,
+      );
+      continue;
+    }
+    sources.push(...loadConfigChain(file, log, chain));
+  }
+  return sources;
+}
+
+/**
+ * Load a config file and the configs it extends, in merge order: bases first,
+ * the file itself last. Empty when the file is missing or invalid.
+ */
+export function loadConfigChain(
+  configPath: string,
+  logger?: ConfigLogger,
+  chain: string[] = [],
+): ConfigSource[] {
+  const log = logger ?? console;
+  const yamlConfig = readYamlFile(configPath, log);
+  if (!yamlConfig) return [];
+
+  const file = path.resolve(configPath);
+  return [
+    ...resolveExtends(yamlConfig, path.dirname(file), log, [...chain, file]),
+    { path: configPath, config: withoutExtends(yamlConfig) },
+  ];
+}
+
+/**
+ * Load YAML config from path, merged over the configs it extends. Uses logger for
+ * messages (Action passes core, CLI uses console).
+ */
+export function loadYamlConfig(
+  configPath: string,
+  logger?: ConfigLogger,
+): YamlConfig | null {
+  const sources = loadConfigChain(configPath, logger);
+  if (sources.length === 0) return null;
+  return sources.map((source) => source.config).reduce(mergeYamlConfigs);
+}
+
 /**
  * Build Config from YAML and overrides. Pure merge: defaults, then YAML, then overrides.
  */
@@ -157,6 +553,13 @@ export function buildConfig(
   logger?: ConfigLogger,
 ): Config {
   const log = logger ?? console;
+  // A config built in code may extend files too, relative to the working directory
+  if (yamlConfig?.extends !== undefined) {
+    yamlConfig = [
+      ...resolveExtends(yamlConfig, process.cwd(), log, []).map((source) => source.config),
+      withoutExtends(yamlConfig),
+    ].reduce(mergeYamlConfigs);
+  }
   const inputFailOn = overrides.failOn ?? "high";
   const inputPostNoFindings = overrides.postNoFindings ?? false;
   const inputIgnore = overrides.ignore ?? "";
@@ -173,7 +576,14 @@ export function buildConfig(
         ? inputMaxFiles
         : parseInt(String(inputMaxFiles) || "100", 10),
     patterns: {},
+    customPatterns: [],
+    customFilePatterns: [],
+    rules: {},
     entropy: { ...DEFAULT_ENTROPY_CONFIG },
+    decode: { ...DEFAULT_DECODE_CONFIG },
+    verify: { ...DEFAULT_VERIFY_CONFIG },
+    baseline: DEFAULT_BASELINE_PATH,
+    concurrency: 0,
   };
 
   if (yamlConfig) {
@@ -193,7 +603,8 @@ export function buildConfig(
       const yamlPatterns: RegExp[] = [];
       for (const pattern of yamlConfig.allowlist) {
         try {
-          yamlPatterns.push(new RegExp(pattern, "gi"));
+          const regex = new RegExp(pattern, "gi");
+          if (isSafeRegex(pattern, "allowlist regex in config", log)) yamlPatterns.push(regex);
         } catch (e) {
           log.warn?.(`Invalid allowlist regex in config "${pattern}": ${e}`);
         }
@@ -209,6 +620,30 @@ export function buildConfig(
     if (yamlConfig.patterns) {
       config.patterns = yamlConfig.patterns;
     }
+    if (yamlConfig.custom_patterns && Array.isArray(yamlConfig.custom_patterns)) {
+      config.customPatterns = parseCustomPatterns(
+        yamlConfig.custom_patterns,
+        log,
+      );
+    }
+    if (
+      yamlConfig.custom_file_patterns &&
+      Array.isArray(yamlConfig.custom_file_patterns)
+    ) {
+      config.customFilePatterns = parseCustomFilePatterns(
+        yamlConfig.custom_file_patterns,
+        new Set(config.customPatterns.map((p) => p.id)),
+        log,
+      );
+    }
+    if (yamlConfig.rules && typeof yamlConfig.rules === "object") {
+      const knownIds = new Set<string>([
+        ...BUILT_IN_RULE_IDS,
+        ...config.customPatterns.map((p) => p.id),
+        ...config.customFilePatterns.map((p) => p.id),
+      ]);
+      config.rules = parseRuleOverrides(yamlConfig.rules, knownIds, log);
+    }
     if (yamlConfig.entropy) {
       config.entropy = {
         enabled: yamlConfig.entropy.enabled ?? DEFAULT_ENTROPY_CONFIG.enabled,
@@ -221,6 +656,34 @@ export function buildConfig(
           DEFAULT_ENTROPY_CONFIG.ignoreBase64Like,
       };
     }
+    if (yamlConfig.decode) {
+      config.decode = {
+        enabled: yamlConfig.decode.enabled ?? DEFAULT_DECODE_CONFIG.enabled,
+        maxDepth: yamlConfig.decode.max_depth ?? DEFAULT_DECODE_CONFIG.maxDepth,
+      };
+    }
+    if (yamlConfig.verify) {
+      config.verify = {
+        enabled: yamlConfig.verify.enabled ?? DEFAULT_VERIFY_CONFIG.enabled,
+        baseUrls: yamlConfig.verify.base_urls ?? {},
+        timeoutMs:
+          yamlConfig.verify.timeout_ms ?? DEFAULT_VERIFY_CONFIG.timeoutMs,
+      };
+    }
+    if (typeof yamlConfig.baseline === "string" && yamlConfig.baseline.trim()) {
+      config.baseline = yamlConfig.baseline.trim();
+    }
+    if (yamlConfig.concurrency !== undefined) {
+      config.concurrency = parseConcurrency(yamlConfig.concurrency, log);
+    }
+  }
+
+  if (overrides.concurrency !== undefined && overrides.concurrency !== "") {
+    config.concurrency = parseConcurrency(overrides.concurrency, log);
+  }
+
+  if (overrides.verify !== undefined) {
+    config.verify.enabled = overrides.verify;
   }
 
   if (inputIgnore) {
@@ -233,42 +696,20 @@ export function buildConfig(
   return config;
 }
 
-/** Load config for GitHub Action (uses @actions/core inputs). */
-export function loadConfig(): Config {
-  const configPath = core.getInput("config_path") || ".keysentinel.yml";
-  const yamlConfig = loadYamlConfig(configPath, {
-    warn: (m) => core.warning(m),
-    debug: (m) => core.debug(m),
-    info: (m) => core.info(m),
-  });
-  return buildConfig(
-    yamlConfig,
-    {
-      failOn: core.getInput("fail_on") || "high",
-      postNoFindings: core.getInput("post_no_findings") === "true",
-      ignore: core.getInput("ignore"),
-      allowlist: core.getInput("allowlist"),
-      maxFiles: parseInt(core.getInput("max_files") || "100", 10),
-    },
-    {
-      warn: (m) => core.warning(m),
-      debug: (m) => core.debug(m),
-      info: (m) => core.info(m),
-    },
-  );
-}
-
 /**
  * Load config for CLI (no @actions/core). Reads .keysentinel.yml from cwd (or configPath).
  */
 export function loadConfigForCli(options?: {
   cwd?: string;
   configPath?: string;
+  overrides?: ConfigOverrides;
+  logger?: ConfigLogger;
 }): Config {
   const cwd = options?.cwd ?? process.cwd();
   const configPath = options?.configPath ?? path.join(cwd, ".keysentinel.yml");
-  const yamlConfig = loadYamlConfig(configPath, console);
-  return buildConfig(yamlConfig, {}, console);
+  const logger = options?.logger ?? console;
+  const yamlConfig = loadYamlConfig(configPath, logger);
+  return buildConfig(yamlConfig, options?.overrides ?? {}, logger);
 }
 
 /**
@@ -321,15 +762,38 @@ function matchGlob(path: string, pattern: string): boolean {
 }
 
 /**
- * Check if a value matches any allowlist pattern
+ * Check if a value matches any allowlist pattern. Patterns run under the time
+ * budget of redos.ts; one that runs out of it doesn't allowlist the value, and
+ * is passed to `onBudgetExceeded`.
  */
-export function isAllowlisted(value: string, allowlist: RegExp[]): boolean {
+export function isAllowlisted(
+  value: string,
+  allowlist: RegExp[],
+  context: ScanContext,
+  onBudgetExceeded?: (pattern: RegExp) => void,
+): boolean {
+  return findAllowlisted([value], allowlist, context, onBudgetExceeded)[0];
+}
+
+/**
+ * isAllowlisted for many values at once, with one budgeted call per pattern
+ * rather than one per value. `onBudgetExceeded` gets the index of the value a
+ * pattern ran out of time on.
+ */
+export function findAllowlisted(
+  values: string[],
+  allowlist: RegExp[],
+  context: ScanContext,
+  onBudgetExceeded?: (pattern: RegExp, index: number) => void,
+): boolean[] {
+  const allowlisted = values.map(() => false);
   for (const pattern of allowlist) {
-    // Reset lastIndex for global patterns
-    pattern.lastIndex = 0;
-    if (pattern.test(value)) {
-      return true;
-    }
+    const pending = values.flatMap((value, i) => (allowlisted[i] ? [] : [i]));
+    const results = execAllWithBudget(pattern, pending.map((i) => values[i]), context);
+    results.forEach((matches, j) => {
+      if (matches === null) onBudgetExceeded?.(pattern, pending[j]);
+      else if (matches.length > 0) allowlisted[pending[j]] = true;
+    });
   }
-  return false;
+  return allowlisted;
 }
@@ -0,0 +1,240 @@
+/**
+ * Decoding layer: finds encoded substrings (base64, URL-encoded, escaped strings)
+ * and decodes them, recursively and within fixed bounds, so patterns can be run
+ * on the decoded text.
+ */
+
+export type Encoding = 'base64' | 'url' | 'escape' | 'json';
+
+export interface DecodeConfig {
+  enabled: boolean;
+  maxDepth: number;
+}
+
+export interface DecodedSegment {
+  /** Substring of the original text the segment was decoded from */
+  encoded: string;
+  /** Fully decoded text */
+  text: string;
+  /** Encodings peeled off, outermost first */
+  chain: Encoding[];
+}
+
+// Upper bound on decoded segments per input, whatever the depth
+const MAX_SEGMENTS = 32;
+// Shortest encoded candidate worth decoding
+const MIN_ENCODED_LENGTH = 16;
+// Shortest decoded text worth scanning
+const MIN_DECODED_LENGTH = 8;
+
+// Longest text searched for encoded substrings; the rest of a longer line (e.g. minified code) is not decoded
+const MAX_DECODE_INPUT_LENGTH = 16 * 1024;
+
+const BASE64_CANDIDATE = /[A-Za-z0-9+/_-]{16,}={0,2}/g;
+
+/**
+ * How to find one kind of percent- or backslash-encoded substring. Candidates are
+ * found from their escapes outward rather than with a leading `[...]*`, which
+ * would retry from every offset of a long run without escapes.
+ */
+interface EscapedRunSyntax {
+  /** An escape, at least one of which is in every candidate */
+  escape: RegExp;
+  /** Length of the escape or plain character ending at `end`, 0 if none */
+  tokenBefore(text: string, end: number): number;
+  /** Length of the escape or plain character starting at `start`, 0 if none */
+  tokenAt(text: string, start: number): number;
+}
+
+const URL_CHAR = /[^\s'"`<>]/;
+
+const URL_SYNTAX: EscapedRunSyntax = {
+  escape: /%[0-9A-Fa-f]{2}/g,
+  tokenBefore: (text, end) => (URL_CHAR.test(text[end - 1]) ? 1 : 0),
+  tokenAt: (text, start) => (URL_CHAR.test(text[start]) ? 1 : 0),
+};
+
+const ESCAPE_CHAR = /[A-Za-z0-9_\-+/=.:@]/;
+const ESCAPE_TOKEN = /\\u[0-9a-fA-F]{4}|\\x[0-9a-fA-F]{2}/y;
+
+const ESCAPE_SYNTAX: EscapedRunSyntax = {
+  escape: /\\u[0-9a-fA-F]{4}|\\x[0-9a-fA-F]{2}/g,
+  tokenBefore: (text, end) => {
+    for (const length of [6, 4]) {
+      ESCAPE_TOKEN.lastIndex = end - length;
+      const match = end >= length ? ESCAPE_TOKEN.exec(text) : null;
+      if (match && match[0].length === length) return length;
+    }
+    return ESCAPE_CHAR.test(text[end - 1]) ? 1 : 0;
+  },
+  tokenAt: (text, start) => {
+    ESCAPE_TOKEN.lastIndex = start;
+    const match = ESCAPE_TOKEN.exec(text);
+    if (match) return match[0].length;
+    return ESCAPE_CHAR.test(text[start]) ? 1 : 0;
+  },
+};
+
+/**
+ * Base64-looking runs of `text`
+ */
+function findBase64Candidates(text: string): string[] {
+  return Array.from(text.matchAll(BASE64_CANDIDATE), match => match[0]);
+}
+
+/**
+ * Maximal runs of `text` that contain an escape: each escape found is grown
+ * outward over escapes and plain characters, and the search resumes after the
+ * run, so every character is looked at a bounded number of times.
+ */
+function findEscapedRuns(text: string, syntax: EscapedRunSyntax): string[] {
+  const runs: string[] = [];
+  let from = 0;
+  syntax.escape.lastIndex = 0;
+  let match;
+  while ((match = syntax.escape.exec(text)) !== null) {
+    let start = match.index;
+    while (start > from) {
+      const length = syntax.tokenBefore(text, start);
+      if (length === 0 || start - length < from) break;
+      start -= length;
+    }
+    let end = match.index + match[0].length;
+    while (end < text.length) {
+      const length = syntax.tokenAt(text, end);
+      if (length === 0) break;
+      end += length;
+    }
+
+    runs.push(text.slice(start, end));
+    from = end;
+    syntax.escape.lastIndex = end;
+  }
+  return runs;
+}
+
+/**
+ * Check that decoded bytes are readable text rather than binary noise
+ */
+function isPrintable(text: string): boolean {
+  if (text.length < MIN_DECODED_LENGTH) return false;
+  let printable = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if ((code >= 0x20 && code < 0x7f) || char === '\n' || char === '\r' || char === '\t') {
+      printable++;
+    }
+  }
+  return printable / text.length >= 0.95;
+}
+
+function decodeBase64(candidate: string): string | null {
+  // A run of plain letters (an identifier) decodes to noise; require some variety
+  if (!/[0-9+/_-]/.test(candidate) && !(/[A-Z]/.test(candidate) && /[a-z]/.test(candidate))) return null;
+
+  const body = candidate.replace(/=+$/, '');
+  if (body.length % 4 === 1) return null;
+
+  const encoding = /[-_]/.test(body) ? 'base64url' : 'base64';
+  const decoded = Buffer.from(body, encoding).toString('utf8');
+  return isPrintable(decoded) ? decoded : null;
+}
+
+function decodeUrl(candidate: string): string | null {
+  try {
+    const decoded = decodeURIComponent(candidate.replace(/\+/g, ' '));
+    return decoded !== candidate ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeEscapes(candidate: string): string | null {
+  const decoded = candidate
+    .replace(/\\u([0-9a-fA-F]{4})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\x([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return decoded !== candidate ? decoded : null;
+}
+
+function collectJsonStrings(value: unknown, out: string[]): void {
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectJsonStrings(item, out);
+  } else if (value && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      out.push(key);
+      collectJsonStrings(item, out);
+    }
+  }
+}
+
+/**
+ * Decode a JSON document into its keys and string values, one per line
+ */
+function decodeJson(text: string): string | null {
+  const trimmed = text.trim();
+  if (!/^[{[]/.test(trimmed)) return null;
+  try {
+    const strings: string[] = [];
+    collectJsonStrings(JSON.parse(trimmed), strings);
+    return strings.length > 0 ? strings.join('\n') : null;
+  } catch {
+    return null;
+  }
+}
+
+function findLayer(text: string): { encoded: string; decoded: string; encoding: Encoding }[] {
+  const layer: { encoded: string; decoded: string; encoding: Encoding }[] = [];
+
+  const candidates: [(text: string) => string[], Encoding, (candidate: string) => string | null][] = [
+    [findBase64Candidates, 'base64', decodeBase64],
+    [input => findEscapedRuns(input, URL_SYNTAX), 'url', decodeUrl],
+    [input => findEscapedRuns(input, ESCAPE_SYNTAX), 'escape', decodeEscapes],
+  ];
+
+  for (const [find, encoding, decode] of candidates) {
+    for (const candidate of find(text)) {
+      if (candidate.length < MIN_ENCODED_LENGTH) continue;
+      const decoded = decode(candidate);
+      if (decoded) layer.push({ encoded: candidate, decoded, encoding });
+    }
+  }
+
+  return layer;
+}
+
+/**
+ * Find and decode encoded substrings of `text`, following nested encodings up to `maxDepth` layers.
+ * Decoded JSON is flattened into its strings. The original text itself is not included.
+ * Only the first MAX_DECODE_INPUT_LENGTH characters of `text` are searched.
+ */
+export function decodeSegments(text: string, maxDepth: number): DecodedSegment[] {
+  const segments: DecodedSegment[] = [];
+
+  const visit = (input: string, origin: string | null, chain: Encoding[]): void => {
+    if (chain.length >= maxDepth) return;
+
+    // A decoded payload may itself be a JSON document
+    if (chain.length > 0) {
+      const json = decodeJson(input);
+      if (json !== null && segments.length < MAX_SEGMENTS) {
+        const next: Encoding[] = [...chain, 'json'];
+        segments.push({ encoded: origin ?? input, text: json, chain: next });
+        visit(json, origin, next);
+      }
+    }
+
+    for (const { encoded, decoded, encoding } of findLayer(input)) {
+      if (segments.length >= MAX_SEGMENTS) return;
+      const next: Encoding[] = [...chain, encoding];
+      // Report against the outermost encoded substring, which is what appears in the file
+      const outer = origin ?? encoded;
+      segments.push({ encoded: outer, text: decoded, chain: next });
+      visit(decoded, outer, next);
+    }
+  };
+
+  visit(text.slice(0, MAX_DECODE_INPUT_LENGTH), null, []);
+  return segments;
+}
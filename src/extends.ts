@@ -0,0 +1,125 @@
+/**
+ * Config inheritance: `extends:` in `.keysentinel.yml`.
+ *
+ * A config can extend local files and configs shipped in npm packages, so an
+ * organisation keeps one shared policy. Bases are merged in order, then the
+ * extending config over them: lists append, mappings (`patterns`, `rules`,
+ * `entropy`, ...) merge key by key, and other values override. Custom rules
+ * merge by rule id, so an extending config can redefine a base's rule.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import { toRuleId } from './patterns';
+
+// Config files a package may ship at its root, when its package.json names none
+const PACKAGE_CONFIG_FILES = ['keysentinel.yml', '.keysentinel.yml'];
+
+// Lists of rules, which merge by rule id
+const RULE_LISTS = new Set(['custom_patterns', 'custom_file_patterns']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function ruleIdOf(rule: unknown): string | undefined {
+  if (!isPlainObject(rule)) return undefined;
+  if (rule.id) return String(rule.id);
+  return typeof rule.name === 'string' ? toRuleId(rule.name) : undefined;
+}
+
+/**
+ * Rules of a base followed by the extending config's, where a rule with the id
+ * of a base rule takes that rule's place
+ */
+function mergeRules(base: unknown[], added: unknown[]): unknown[] {
+  const replaced = new Set<string>();
+  const merged = base.map(rule => {
+    const id = ruleIdOf(rule);
+    const replacement = id === undefined ? undefined : added.find(other => ruleIdOf(other) === id);
+    if (replacement === undefined) return rule;
+    replaced.add(id as string);
+    return replacement;
+  });
+  return [...merged, ...added.filter(rule => !replaced.has(ruleIdOf(rule) ?? ''))];
+}
+
+/**
+ * Merge a config over the one it extends. Lists append (items already in the
+ * base are not repeated), except that custom rules replace base rules with the
+ * same id. Mappings merge recursively, other values override.
+ */
+export function mergeYamlConfigs<T extends object>(base: T, override: T): T {
+  const merged: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+
+  for (const [key, value] of Object.entries(override)) {
+    const current = merged[key];
+    if (Array.isArray(current) && Array.isArray(value)) {
+      const existing = new Set(current.map(item => JSON.stringify(item)));
+      const added = value.filter(item => !existing.has(JSON.stringify(item)));
+      merged[key] = RULE_LISTS.has(key) ? mergeRules(current, added) : [...current, ...added];
+    } else if (isPlainObject(current) && isPlainObject(value)) {
+      merged[key] = mergeYamlConfigs(current, value);
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return merged as T;
+}
+
+/**
+ * Find an installed package's directory by walking the `node_modules` folders
+ * Node would search from `fromDir`. Resolving `<name>/package.json` instead
+ * fails for packages whose `exports` map doesn't list it.
+ */
+function findPackageDir(name: string, fromDir: string): string | null {
+  const resolver = createRequire(path.join(fromDir, 'noop.js'));
+  for (const dir of resolver.resolve.paths(name) ?? []) {
+    const packageDir = path.join(dir, name);
+    if (fs.existsSync(path.join(packageDir, 'package.json'))) return packageDir;
+  }
+  return null;
+}
+
+/**
+ * Resolve an `extends` entry to a config file. Paths (`./base.yml`, `/etc/...`)
+ * are relative to the extending config's directory; anything else names an npm
+ * package, installed where the extending config's directory would find it, or a
+ * file inside one (`@acme/policies/strict.yml`). A package's config is the file
+ * its package.json names under `keysentinel`, else `keysentinel.yml` at its root.
+ * Throws when nothing is found.
+ */
+export function resolveExtendsSpec(spec: string, fromDir: string): string {
+  if (spec.startsWith('.') || path.isAbsolute(spec)) {
+    const file = path.resolve(fromDir, spec);
+    if (!fs.existsSync(file)) throw new Error(`no config file at ${file}`);
+    return file;
+  }
+
+  const [, name, subpath] = /^((?:@[^/]+\/)?[^/]+)(?:\/(.*))?$/.exec(spec) ?? [];
+  const packageDir = name ? findPackageDir(name, fromDir) : null;
+  if (!packageDir) throw new Error(`cannot find package "${name ?? spec}" from ${fromDir}; is it installed?`);
+
+  if (subpath) {
+    const file = path.join(packageDir, subpath);
+    if (!fs.existsSync(file)) throw new Error(`package "${name}" has no file ${subpath}`);
+    return file;
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf8')) as { keysentinel?: unknown };
+  if (typeof manifest.keysentinel === 'string') {
+    const file = path.join(packageDir, manifest.keysentinel);
+    if (!fs.existsSync(file)) {
+      throw new Error(`package "${name}" names ${manifest.keysentinel} under "keysentinel", but it has no such file`);
+    }
+    return file;
+  }
+
+  for (const file of PACKAGE_CONFIG_FILES) {
+    const candidate = path.join(packageDir, file);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  throw new Error(`package "${name}" has no ${PACKAGE_CONFIG_FILES[0]} and names no config under "keysentinel"`);
+}
@@ -0,0 +1,163 @@
+/**
+ * Sensitive filename detection: flags newly added files whose path alone marks
+ * them as credentials (private keys, keystores, Terraform state, ...), even
+ * when their content is binary or unavailable.
+ */
+
+import { Confidence, FileFinding, RuleOverride, Severity } from './patterns';
+import { ScanContext, createScanContext, execAllWithBudget, reportBudgetOverrun } from './redos';
+
+export interface FilePattern {
+  /** Stable rule identifier, e.g. `pkcs12-file` */
+  id: string;
+  name: string;
+  /** Matched against the file path with forward slashes */
+  pattern: RegExp;
+  severity: Severity;
+  group: string;
+  remediation: string;
+  /** Only report when the added content matches this (e.g. `_authToken` in .npmrc) */
+  contentPattern?: RegExp;
+  /** Confidence reported for matches (default: high) */
+  confidence?: Confidence;
+  /** User-supplied regexes, run under a time budget (see redos.ts) */
+  budgeted?: boolean;
+}
+
+export const SENSITIVE_FILE_PATTERNS: FilePattern[] = [
+  {
+    id: 'ssh-private-key-file',
+    name: 'SSH Private Key File',
+    pattern: /(?:^|\/)id_(?:rsa|dsa|ecdsa|ed25519)$/i,
+    severity: 'high',
+    group: 'files',
+    remediation: 'Remove the private key from the repository (`git rm --cached <file>`) and add it to .gitignore. Generate a new key pair and remove the old public key from every authorized_keys and Git host.',
+  },
+  {
+    id: 'pkcs12-file',
+    name: 'PKCS#12 Certificate Bundle',
+    pattern: /\.(?:p12|pfx)$/i,
+    severity: 'high',
+    group: 'files',
+    remediation: 'PKCS#12 bundles contain a private key. Remove the file, revoke the certificate with its issuer and issue a new one. Store certificates in a secrets manager or CI secret instead.',
+  },
+  {
+    id: 'java-keystore-file',
+    name: 'Java Keystore',
+    pattern: /\.(?:keystore|jks)$/i,
+    severity: 'high',
+    group: 'files',
+    remediation: 'Remove the keystore from the repository. Rotate the keys and certificates it contains (including Android signing keys where possible) and keep keystores in a secrets manager or CI secret.',
+  },
+  {
+    id: 'credentials-json-file',
+    name: 'Credentials JSON File',
+    pattern: /(?:^|\/)credentials\.json$/i,
+    severity: 'high',
+    group: 'files',
+    remediation: 'Remove the credentials file and delete the key or OAuth client it contains in the provider console (e.g. Google Cloud → IAM → Service Accounts → Keys). Load credentials from the environment at runtime.',
+  },
+  {
+    id: 'npmrc-auth-token-file',
+    name: '.npmrc With Auth Token',
+    pattern: /(?:^|\/)\.npmrc$/i,
+    contentPattern: /_authToken\s*=\s*[^\s$]/,
+    severity: 'high',
+    group: 'files',
+    remediation: 'Revoke the token with `npm token revoke <token>` and remove it from .npmrc. Reference it as `_authToken=${NPM_TOKEN}` and provide NPM_TOKEN from the environment.',
+  },
+  {
+    id: 'kubeconfig-file',
+    name: 'Kubeconfig File',
+    pattern: /(?:^|\/)(?:kubeconfig(?:\.ya?ml)?|\.kube\/config)$/i,
+    severity: 'high',
+    group: 'files',
+    remediation: 'Kubeconfig files carry cluster credentials. Remove the file, revoke the embedded client certificates or tokens, and distribute access through your identity provider instead.',
+  },
+  {
+    id: 'terraform-state-file',
+    name: 'Terraform State File',
+    pattern: /\.tfstate(?:\.backup)?$/i,
+    severity: 'high',
+    group: 'files',
+    remediation: 'Terraform state stores every resource attribute, including secrets, in plain text. Remove it from the repository, move state to an encrypted remote backend, and rotate the credentials it contains.',
+  },
+];
+
+/**
+ * Get built-in and custom file patterns filtered by enabled groups, with per-rule overrides applied
+ */
+export function getEnabledFilePatterns(
+  enabledGroups?: Record<string, boolean>,
+  customPatterns: FilePattern[] = [],
+  rules: Record<string, RuleOverride> = {}
+): FilePattern[] {
+  const enabled: FilePattern[] = [];
+
+  for (const pattern of [...SENSITIVE_FILE_PATTERNS, ...customPatterns]) {
+    const rule = rules[pattern.id];
+    if (rule?.enabled === false) continue;
+    if (rule?.enabled !== true && enabledGroups?.[pattern.group] === false) continue;
+
+    enabled.push({
+      ...pattern,
+      severity: rule?.severity ?? pattern.severity,
+      confidence: rule?.confidence ?? pattern.confidence,
+    });
+  }
+
+  return enabled;
+}
+
+/**
+ * Check a newly added file's path against the file patterns.
+ * `addedLines` is used for patterns that also need content; when it is empty
+ * (binary file or no patch) such patterns are reported with medium confidence.
+ */
+export function scanFilePath(
+  filename: string,
+  patterns: FilePattern[],
+  addedLines: { line: string; lineNumber: number }[] = [],
+  context: ScanContext = createScanContext()
+): FileFinding[] {
+  const normalized = filename.replace(/\\/g, '/');
+  const findings: FileFinding[] = [];
+
+  for (const pattern of patterns) {
+    // Whether a regex matches any of the texts; a custom one doesn't match a text it runs out of time on
+    const matchesAny = (regex: RegExp, texts: string[], lineNumbers?: number[]): boolean => {
+      if (!pattern.budgeted) return texts.some(text => regex.test(text));
+      const results = execAllWithBudget(regex, texts, context);
+      results.forEach((matches, i) => {
+        if (matches === null) reportBudgetOverrun(context, regex, pattern.id, filename, lineNumbers?.[i]);
+      });
+      return results.some(matches => matches !== null && matches.length > 0);
+    };
+
+    if (!matchesAny(pattern.pattern, [normalized])) continue;
+
+    let confidence: Confidence = pattern.confidence ?? 'high';
+    if (pattern.contentPattern) {
+      if (addedLines.length > 0) {
+        const lineNumbers = addedLines.map(l => l.lineNumber);
+        if (!matchesAny(pattern.contentPattern, addedLines.map(l => l.line), lineNumbers)) continue;
+      } else {
+        confidence = 'medium';
+      }
+    }
+
+    findings.push({
+      file: filename,
+      line: null,
+      ruleId: pattern.id,
+      type: pattern.name,
+      severity: pattern.severity,
+      confidence,
+      snippet: normalized,
+      rawValue: normalized,
+      remediation: pattern.remediation,
+    });
+  }
+
+  return findings;
+}
@@ -0,0 +1,149 @@
+/**
+ * Machine-readable report formats: JSON, JUnit XML and CSV.
+ *
+ * All formats carry masked snippets only. JSON follows the schema of the
+ * Action's `findings` output.
+ */
+
+import { Finding, Severity } from './patterns';
+import { formatLineRange } from './scanner';
+
+/** A finding without its raw value, safe to write to logs and files */
+export type SafeFinding = Omit<Finding, 'rawValue' | 'suppressed'>;
+
+export function toSafeFinding(f: Finding): SafeFinding {
+  return {
+    file: f.file,
+    line: f.line,
+    endLine: f.endLine,
+    ruleId: f.ruleId,
+    type: f.type,
+    keyPath: f.keyPath,
+    severity: f.severity,
+    confidence: f.confidence,
+    snippet: f.snippet,
+    remediation: f.remediation,
+    encoding: f.encoding,
+    verified: f.verified,
+    commit: f.commit,
+    presentAtHead: f.presentAtHead,
+  };
+}
+
+export function formatJson(findings: Finding[]): string {
+  return JSON.stringify(findings.map(toSafeFinding), null, 2);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * JUnit XML: one test case per finding, grouped by file. Findings at or above
+ * `failOn` are failures, the rest are reported as passing with their details in
+ * `system-out`, and suppressed findings are skipped.
+ */
+export function formatJunit(findings: Finding[], failOn: Severity | 'off', suppressed: Finding[] = []): string {
+  const severityOrder: Record<Severity, number> = { low: 1, medium: 2, high: 3 };
+  const isFailure = (f: Finding): boolean => failOn !== 'off' && severityOrder[f.severity] >= severityOrder[failOn];
+  const all = [...findings, ...suppressed];
+  const failures = findings.filter(isFailure).length;
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push(
+    `<testsuites name="KeySentinel" tests="${Math.max(all.length, 1)}" failures="${failures}" skipped="${suppressed.length}">`
+  );
+
+  if (all.length === 0) {
+    // A suite without test cases is reported as an error by some CI servers
+    lines.push('  <testsuite name="keysentinel" tests="1" failures="0" skipped="0">');
+    lines.push('    <testcase classname="keysentinel" name="No secrets detected"/>');
+    lines.push('  </testsuite>');
+  }
+
+  const byFile = new Map<string, Finding[]>();
+  for (const finding of all) {
+    const group = byFile.get(finding.file) ?? [];
+    group.push(finding);
+    byFile.set(finding.file, group);
+  }
+
+  for (const [file, fileFindings] of byFile) {
+    const fileFailures = fileFindings.filter(f => !f.suppressed && isFailure(f)).length;
+    const fileSkipped = fileFindings.filter(f => f.suppressed).length;
+    lines.push(
+      `  <testsuite name="${escapeXml(file)}" tests="${fileFindings.length}" failures="${fileFailures}" skipped="${fileSkipped}">`
+    );
+
+    for (const f of fileFindings) {
+      const name = `${f.ruleId} at line ${formatLineRange(f)}`;
+      const details = [
+        `${f.type} in ${f.file}:${formatLineRange(f)}`,
+        `Severity: ${f.severity}, confidence: ${f.confidence}`,
+        ...(f.keyPath ? [`Key: ${f.keyPath}`] : []),
+        ...(f.commit ? [`Commit: ${f.commit.sha} by ${f.commit.author} on ${f.commit.date}`] : []),
+        `Preview: ${f.snippet}`,
+        `Fix: ${f.remediation}`,
+      ].join('\n');
+
+      lines.push(`    <testcase classname="${escapeXml(file)}" name="${escapeXml(name)}">`);
+      if (f.suppressed) {
+        const reason = f.suppressed.reason ?? 'suppressed by keysentinel:allow';
+        lines.push(`      <skipped message="${escapeXml(reason)}"/>`);
+      } else if (isFailure(f)) {
+        lines.push(`      <failure message="${escapeXml(`${f.type} (${f.severity})`)}" type="${escapeXml(f.ruleId)}">${escapeXml(details)}</failure>`);
+      } else {
+        lines.push(`      <system-out>${escapeXml(details)}</system-out>`);
+      }
+      lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
+const CSV_COLUMNS = [
+  'file', 'line', 'endLine', 'ruleId', 'type', 'severity', 'confidence',
+  'keyPath', 'encoding', 'verified', 'snippet', 'remediation',
+  'commit', 'author', 'date', 'presentAtHead',
+] as const;
+
+// Commit columns are filled for history scans only
+function csvValue(finding: SafeFinding, column: (typeof CSV_COLUMNS)[number]): unknown {
+  switch (column) {
+    case 'commit':
+      return finding.commit?.sha;
+    case 'author':
+      return finding.commit && `${finding.commit.author} <${finding.commit.email}>`;
+    case 'date':
+      return finding.commit?.date;
+    default:
+      return finding[column];
+  }
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = Array.isArray(value) ? value.join(' -> ') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV (RFC 4180) with a header row, one row per finding
+ */
+export function formatCsv(findings: Finding[]): string {
+  const rows = [CSV_COLUMNS.join(',')];
+  for (const finding of findings.map(toSafeFinding)) {
+    rows.push(CSV_COLUMNS.map(column => escapeCsv(csvValue(finding, column))).join(','));
+  }
+  return rows.join('\r\n');
+}
@@ -4,6 +4,8 @@
 
 import * as core from '@actions/core';
 import * as github from '@actions/github';
+import { CheckAnnotation, ReviewComment } from './scanner';
+import { BINARY_PROBE_BYTES, SkipReason } from './walk';
 
 export type Octokit = ReturnType<typeof github.getOctokit>;
 
@@ -48,6 +50,50 @@ export function getPRContext(): { owner: string; repo: string; pullNumber: numbe
   };
 }
 
+/**
+ * Get the repository and the commit range of a run without a pull request.
+ * A `push` compares `before` with `after`; other events (e.g. `workflow_dispatch`)
+ * look at the changes of the triggering commit alone.
+ */
+export function getCommitContext(): { owner: string; repo: string; base: string | null; head: string } {
+  const context = github.context;
+  const before = context.eventName === 'push' ? String(context.payload.before ?? '') : '';
+
+  return {
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    // A new branch is pushed with an all-zero `before`
+    base: before && !/^0+$/.test(before) ? before : null,
+    head: context.sha,
+  };
+}
+
+/**
+ * Fetch files changed between two commits, or in a single commit when `base` is null
+ */
+export async function getCommitFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string | null,
+  head: string,
+  maxFiles: number
+): Promise<PullRequestFile[]> {
+  try {
+    const files = base
+      ? (await octokit.rest.repos.compareCommitsWithBasehead({ owner, repo, basehead: `${base}...${head}` })).data.files
+      : (await octokit.rest.repos.getCommit({ owner, repo, ref: head })).data.files;
+    return ((files ?? []) as PullRequestFile[]).slice(0, maxFiles);
+  } catch (error: unknown) {
+    if (isRateLimitError(error)) {
+      core.warning('Rate limit hit while fetching commit files, waiting...');
+      await sleep(60000);
+      return getCommitFiles(octokit, owner, repo, base, head, maxFiles);
+    }
+    throw error;
+  }
+}
+
 /**
  * Fetch files changed in a PR
  */
@@ -97,15 +143,17 @@ export async function getPRFiles(
 }
 
 /**
- * Fetch file content at a specific ref
+ * Fetch file content at a specific ref. Files over `maxBytes` are not downloaded,
+ * and binary files (a NUL byte near the start) are not decoded.
  */
 export async function getFileContent(
   octokit: Octokit,
   owner: string,
   repo: string,
   path: string,
-  ref: string
-): Promise<string | null> {
+  ref: string,
+  maxBytes: number = Infinity
+): Promise<{ content: string } | { skipped: SkipReason }> {
   try {
     const response = await octokit.rest.repos.getContent({
       owner,
@@ -114,21 +162,24 @@ export async function getFileContent(
       ref,
     });
 
-    if ('content' in response.data && response.data.type === 'file') {
-      const content = Buffer.from(response.data.content, 'base64').toString('utf8');
-      return content;
+    if (!('content' in response.data) || response.data.type !== 'file') return { skipped: 'unreadable' };
+    // The API leaves `content` empty for files over 1 MB
+    if (response.data.size > maxBytes || (response.data.size > 0 && !response.data.content)) {
+      return { skipped: 'too large' };
     }
 
-    return null;
+    const buffer = Buffer.from(response.data.content, 'base64');
+    if (buffer.subarray(0, BINARY_PROBE_BYTES).includes(0)) return { skipped: 'binary' };
+    return { content: buffer.toString('utf8') };
   } catch (error: unknown) {
     if (isNotFoundError(error)) {
       core.debug(`File not found: ${path}`);
-      return null;
+      return { skipped: 'unreadable' };
     }
     if (isRateLimitError(error)) {
       core.warning('Rate limit hit while fetching file content, waiting...');
       await sleep(60000);
-      return getFileContent(octokit, owner, repo, path, ref);
+      return getFileContent(octokit, owner, repo, path, ref, maxBytes);
     }
     throw error;
   }
@@ -254,6 +305,225 @@ export async function deleteExistingComment(
   return false;
 }
 
+// The Checks API accepts at most 50 annotations per request
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+// GitHub rejects a check run summary longer than this
+const MAX_CHECK_SUMMARY_LENGTH = 65535;
+
+const CHECK_NAME = 'KeySentinel';
+
+export interface CheckRunResult {
+  conclusion: 'success' | 'neutral' | 'failure';
+  title: string;
+  summary: string;
+  annotations: CheckAnnotation[];
+}
+
+/**
+ * Create a completed check run on a commit. Annotations beyond the first 50
+ * are added with follow-up updates, and the conclusion is set with the last batch.
+ */
+export async function createCheckRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  headSha: string,
+  result: CheckRunResult
+): Promise<void> {
+  const summary = result.summary.length > MAX_CHECK_SUMMARY_LENGTH
+    ? result.summary.slice(0, MAX_CHECK_SUMMARY_LENGTH - 20) + '\n\n_(truncated)_'
+    : result.summary;
+  const batches: CheckAnnotation[][] = [];
+  for (let i = 0; i < result.annotations.length; i += MAX_ANNOTATIONS_PER_REQUEST) {
+    batches.push(result.annotations.slice(i, i + MAX_ANNOTATIONS_PER_REQUEST));
+  }
+  const output = (annotations: CheckAnnotation[] = []) => ({
+    title: result.title,
+    summary,
+    annotations,
+  });
+
+  // A request that hits the rate limit is sent again on its own, so a failed
+  // batch resumes the same check run instead of starting another
+  const send = async <T>(request: () => Promise<T>): Promise<T> => {
+    for (;;) {
+      try {
+        return await request();
+      } catch (error: unknown) {
+        if (!isRateLimitError(error)) throw error;
+        core.warning('Rate limit hit while creating check run, waiting...');
+        await sleep(60000);
+      }
+    }
+  };
+
+  try {
+    const single = batches.length <= 1;
+    const created = await send(() => octokit.rest.checks.create({
+      owner,
+      repo,
+      name: CHECK_NAME,
+      head_sha: headSha,
+      ...(single
+        ? { status: 'completed' as const, conclusion: result.conclusion }
+        : { status: 'in_progress' as const }),
+      output: output(batches[0]),
+    }));
+
+    for (let i = 1; i < batches.length; i++) {
+      const last = i === batches.length - 1;
+      await send(() => octokit.rest.checks.update({
+        owner,
+        repo,
+        check_run_id: created.data.id,
+        ...(last ? { status: 'completed' as const, conclusion: result.conclusion } : {}),
+        output: output(batches[i]),
+      }));
+    }
+
+    core.info(`Created check run #${created.data.id} with ${result.annotations.length} annotation(s)`);
+  } catch (error: unknown) {
+    if (isPermissionError(error)) {
+      const status = getErrorStatus(error);
+      core.error(
+        `HTTP ${status}: Insufficient permissions to create a check run. ` +
+        'Add "checks: write" to the workflow permissions.'
+      );
+      return;
+    }
+    throw error;
+  }
+}
+
+const REVIEW_MARKER = '<!-- keysentinel:review -->';
+const REVIEW_COMMENT_MARKER = /<!-- keysentinel:review-comment key=(\S+)( resolved)? -->/;
+
+function reviewCommentBody(key: string, body: string): string {
+  return `<!-- keysentinel:review-comment key=${key} -->\n${body}`;
+}
+
+function resolvedCommentBody(key: string): string {
+  return `<!-- keysentinel:review-comment key=${key} resolved -->\n:white_check_mark: **Resolved** — KeySentinel no longer detects a secret here.`;
+}
+
+export interface ReviewOptions {
+  /** Submit the review as REQUEST_CHANGES when `failed` */
+  requestChanges: boolean;
+  /** Whether findings reach the fail_on threshold */
+  failed: boolean;
+}
+
+/**
+ * Post findings as inline review comments, reusing KeySentinel's comments from earlier runs:
+ * unchanged comments are left alone, changed ones are edited, and ones whose finding is gone
+ * are marked resolved. Only new comments are posted, in a single review.
+ * With `requestChanges`, a failing scan requests changes and a passing one dismisses that review.
+ */
+export async function syncReviewComments(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  headSha: string,
+  comments: ReviewComment[],
+  options: ReviewOptions
+): Promise<void> {
+  try {
+    const existing = await octokit.paginate(octokit.rest.pulls.listReviewComments, {
+      owner,
+      repo,
+      pull_number: pullNumber,
+      per_page: 100,
+    });
+
+    const ours = new Map<string, { id: number; body: string; resolved: boolean }>();
+    for (const comment of existing) {
+      const match = comment.body?.match(REVIEW_COMMENT_MARKER);
+      // Replies in a thread carry no marker; only the comment we posted does
+      if (match && !ours.has(match[1])) {
+        ours.set(match[1], { id: comment.id, body: comment.body, resolved: match[2] !== undefined });
+      }
+    }
+
+    const current = new Set(comments.map(c => c.key));
+    const newComments: ReviewComment[] = [];
+
+    for (const comment of comments) {
+      const body = reviewCommentBody(comment.key, comment.body);
+      const previous = ours.get(comment.key);
+      if (!previous) {
+        newComments.push(comment);
+      } else if (previous.body !== body) {
+        await octokit.rest.pulls.updateReviewComment({ owner, repo, comment_id: previous.id, body });
+      }
+    }
+
+    for (const [key, previous] of ours) {
+      if (current.has(key) || previous.resolved) continue;
+      await octokit.rest.pulls.updateReviewComment({
+        owner,
+        repo,
+        comment_id: previous.id,
+        body: resolvedCommentBody(key),
+      });
+    }
+
+    const reviews = await octokit.paginate(octokit.rest.pulls.listReviews, {
+      owner,
+      repo,
+      pull_number: pullNumber,
+      per_page: 100,
+    });
+    const blocking = reviews.filter(r => r.state === 'CHANGES_REQUESTED' && r.body?.includes(REVIEW_MARKER));
+
+    const requestChanges = options.requestChanges && options.failed && blocking.length === 0;
+    if (newComments.length > 0 || requestChanges) {
+      await octokit.rest.pulls.createReview({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        commit_id: headSha,
+        event: requestChanges ? 'REQUEST_CHANGES' : 'COMMENT',
+        body: `${REVIEW_MARKER}\n:lock: **KeySentinel** found ${comments.length} potential secret(s) in this pull request.`,
+        comments: newComments.map(c => ({
+          path: c.path,
+          position: c.position,
+          body: reviewCommentBody(c.key, c.body),
+        })),
+      });
+      core.info(`Posted review with ${newComments.length} new inline comment(s)`);
+    }
+
+    if (!options.failed) {
+      for (const review of blocking) {
+        await octokit.rest.pulls.dismissReview({
+          owner,
+          repo,
+          pull_number: pullNumber,
+          review_id: review.id,
+          message: 'KeySentinel no longer detects secrets at or above the fail_on threshold.',
+        });
+        core.info(`Dismissed review #${review.id}`);
+      }
+    }
+  } catch (error: unknown) {
+    if (isRateLimitError(error)) {
+      core.warning('Rate limit hit while posting review comments, waiting...');
+      await sleep(60000);
+      return syncReviewComments(octokit, owner, repo, pullNumber, headSha, comments, options);
+    }
+    if (isPermissionError(error)) {
+      const status = getErrorStatus(error);
+      core.error(
+        `HTTP ${status}: Insufficient permissions to review the pull request. ` +
+        'Add "pull-requests: write" to the workflow permissions.'
+      );
+      return;
+    }
+    throw error;
+  }
+}
+
 /**
  * Get the PR head SHA
  */
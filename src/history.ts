@@ -0,0 +1,130 @@
+/**
+ * Git history audit: scans the lines added by every commit, attributes each
+ * finding to the commit that first introduced it, and checks whether the secret
+ * is still present at the tip of the scanned history.
+ */
+
+import { execFileSync } from 'child_process';
+import { Config, shouldIgnoreFile } from './config';
+import { CommitInfo, Finding, SecretPattern } from './patterns';
+import { FilePattern, scanFilePath } from './filenames';
+import { extractAddedLines, extractContextLines, scanFile, splitDiff } from './scanner';
+import { fingerprintSecret } from './baseline';
+import { ScanDiagnostic, createScanContext } from './redos';
+
+export interface HistoryOptions {
+  /** Only commits more recent than this date (any format `git log --since` accepts) */
+  since?: string;
+  /** Branch or other ref to walk; defaults to HEAD */
+  branch?: string;
+  /** Walk every branch and tag instead of a single ref */
+  all?: boolean;
+}
+
+export interface HistoryResult {
+  /** One finding per secret, attributed to its first commit, oldest first */
+  findings: Finding[];
+  commitsScanned: number;
+  /** Problems met, e.g. custom patterns that ran out of their time budget */
+  diagnostics: ScanDiagnostic[];
+}
+
+// A single commit's diff may be large (vendored code); larger ones are skipped
+const MAX_COMMIT_DIFF_BYTES = 256 * 1024 * 1024;
+
+function git(gitRoot: string, args: string[]): string {
+  return execFileSync('git', ['-c', 'core.quotepath=false', ...args], {
+    cwd: gitRoot,
+    encoding: 'utf8',
+    maxBuffer: MAX_COMMIT_DIFF_BYTES,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+}
+
+function listCommits(gitRoot: string, options: HistoryOptions): string[] {
+  const args = ['rev-list', '--reverse', '--topo-order', '--no-merges'];
+  if (options.since) args.push(`--since=${options.since}`);
+  args.push(options.all ? '--all' : options.branch ?? 'HEAD', '--');
+  return git(gitRoot, args).split('\n').filter(Boolean);
+}
+
+function parseCommitHeader(header: string): CommitInfo {
+  const [sha, author, email, date] = header.split('\0');
+  return { sha, author, email, date };
+}
+
+/**
+ * Whether a finding's secret is still in its file at `ref`. File findings only
+ * need the file to exist. Whitespace is ignored, as secrets may span lines.
+ */
+function isPresentAt(gitRoot: string, ref: string, finding: Finding, cache: Map<string, string | null>): boolean {
+  let content = cache.get(finding.file);
+  if (content === undefined) {
+    try {
+      content = git(gitRoot, ['show', `${ref}:${finding.file}`]).replace(/\s+/g, '');
+    } catch {
+      content = null;
+    }
+    cache.set(finding.file, content);
+  }
+
+  if (content === null) return false;
+  return finding.line === null || content.includes(finding.rawValue.replace(/\s+/g, ''));
+}
+
+/**
+ * Scan the history of a repository. Merge commits are skipped, since their
+ * changes are scanned in the commits they merge. A secret carried forward or
+ * moved to another file is reported once, at the commit that introduced it.
+ */
+export function scanHistory(
+  gitRoot: string,
+  options: HistoryOptions,
+  config: Config,
+  patterns: SecretPattern[],
+  filePatterns: FilePattern[],
+  onProgress?: (done: number, total: number) => void
+): HistoryResult {
+  const commits = listCommits(gitRoot, options);
+  const seen = new Map<string, Finding>();
+  const context = createScanContext();
+
+  commits.forEach((sha, index) => {
+    onProgress?.(index, commits.length);
+
+    let output: string;
+    try {
+      output = git(gitRoot, ['show', '--no-color', '--format=%H%x00%an%x00%ae%x00%aI', sha]);
+    } catch {
+      // Unreadable or oversized commit
+      return;
+    }
+
+    const newline = output.indexOf('\n');
+    const commit = parseCommitHeader(newline === -1 ? output : output.slice(0, newline));
+
+    for (const { file, isNew, patch } of splitDiff(newline === -1 ? '' : output.slice(newline + 1))) {
+      if (shouldIgnoreFile(file, config.ignore)) continue;
+
+      const addedLines = extractAddedLines(patch);
+      const fileFindings: Finding[] = isNew ? scanFilePath(file, filePatterns, addedLines, context) : [];
+      if (addedLines.length > 0) {
+        fileFindings.push(...scanFile(file, addedLines, config, patterns, extractContextLines(patch), context));
+      }
+
+      for (const finding of fileFindings) {
+        const key = fingerprintSecret(finding);
+        if (!seen.has(key)) seen.set(key, { ...finding, commit });
+      }
+    }
+  });
+
+  const tip = options.all ? 'HEAD' : options.branch ?? 'HEAD';
+  const cache = new Map<string, string | null>();
+  const findings = [...seen.values()];
+  for (const finding of findings) {
+    finding.presentAtHead = isPresentAt(gitRoot, tip, finding, cache);
+  }
+
+  return { findings, commitsScanned: commits.length, diagnostics: context.diagnostics };
+}
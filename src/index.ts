@@ -1,26 +1,98 @@
 /**
- * KeySentinel - GitHub Action for scanning PR diffs for secrets
+ * KeySentinel - GitHub Action for scanning PR and push diffs for secrets
  */
 
 import * as core from '@actions/core';
+import * as fs from 'fs';
+import { isMainThread } from 'worker_threads';
 import { maskSecret } from './mask';
-import { loadConfig, shouldIgnoreFile } from './config';
-import { getEnabledPatterns } from './patterns';
+import { buildConfig, Config, ConfigLogger, loadYamlConfig, shouldIgnoreFile } from './config';
+import { Finding, getEnabledPatterns } from './patterns';
+import { verifyFindings } from './verify';
+import { getEnabledFilePatterns } from './filenames';
+import { runScanJobs, ScanJob } from './pool';
+import { applyBaseline, findStaleEntries, loadBaseline } from './baseline';
+import { generateSarif } from './sarif';
+import { toSafeFinding } from './formats';
 import {
   createOctokit,
   getPRContext,
   getPRFiles,
+  getCommitContext,
+  getCommitFiles,
+  PullRequestFile,
   getFileContent,
   upsertComment,
   deleteExistingComment,
   getPRHeadSha,
+  createCheckRun,
+  syncReviewComments,
 } from './github';
 import {
   extractAddedLines,
-  scanLines,
+  extractDiffPositions,
   generateReport,
   shouldFail,
+  formatLineRange,
+  buildAnnotations,
+  buildReviewComments,
+  buildReportData,
+  sortFindings,
 } from './scanner';
+import { writeJobSummary } from './summary';
+
+type ReportTarget = 'comment' | 'check' | 'review';
+
+// Changed files without a patch are fetched whole up to this size, as `scan-dir` reads files
+const MAX_FETCHED_FILE_BYTES = 1024 * 1024;
+
+const actionLogger: ConfigLogger = {
+  warn: (m) => core.warning(m),
+  debug: (m) => core.debug(m),
+  info: (m) => core.info(m),
+};
+
+/**
+ * Load config from the config file and the Action inputs
+ */
+function loadConfig(): Config {
+  const configPath = core.getInput('config_path') || '.keysentinel.yml';
+  return buildConfig(
+    loadYamlConfig(configPath, actionLogger),
+    {
+      failOn: core.getInput('fail_on') || 'high',
+      postNoFindings: core.getInput('post_no_findings') === 'true',
+      ignore: core.getInput('ignore'),
+      allowlist: core.getInput('allowlist'),
+      maxFiles: parseInt(core.getInput('max_files') || '100', 10),
+      verify: core.getInput('verify') ? core.getInput('verify') === 'true' : undefined,
+      concurrency: core.getInput('concurrency'),
+    },
+    actionLogger
+  );
+}
+
+/**
+ * Parse the report_mode input: a comma-separated list of targets; `both` means comment and check
+ */
+function getReportTargets(): Set<ReportTarget> {
+  const targets = new Set<ReportTarget>();
+  const input = core.getInput('report_mode').trim().toLowerCase() || 'comment';
+
+  for (const mode of input.split(',').map(m => m.trim()).filter(Boolean)) {
+    if (mode === 'both') {
+      targets.add('comment');
+      targets.add('check');
+    } else if (mode === 'comment' || mode === 'check' || mode === 'review') {
+      targets.add(mode);
+    } else {
+      core.warning(`Invalid report_mode "${mode}", expected comment, check, review or both`);
+    }
+  }
+
+  if (targets.size === 0) targets.add('comment');
+  return targets;
+}
 
 async function run(): Promise<void> {
   try {
@@ -32,26 +104,42 @@ async function run(): Promise<void> {
     const token = core.getInput('github_token', { required: true });
     const octokit = createOctokit(token);
 
+    // Without a pull request (e.g. `push` or `workflow_dispatch`) the changed
+    // commits are scanned and reported in the check run and job summary only
     const prContext = getPRContext();
-    if (!prContext) {
-      core.warning('Not running in a pull request context. Skipping scan.');
-      return;
-    }
+    const commitContext = getCommitContext();
+    const { owner, repo } = prContext ?? commitContext;
+    const pullNumber = prContext?.pullNumber ?? null;
 
-    const { owner, repo, pullNumber } = prContext;
-    core.info(`Scanning PR #${pullNumber} in ${owner}/${repo}`);
-
-    const files = await getPRFiles(octokit, owner, repo, pullNumber, config.maxFiles);
-    core.info(`Found ${files.length} file(s) in PR`);
+    let files: PullRequestFile[];
+    if (pullNumber !== null) {
+      core.info(`Scanning PR #${pullNumber} in ${owner}/${repo}`);
+      files = await getPRFiles(octokit, owner, repo, pullNumber, config.maxFiles);
+      core.info(`Found ${files.length} file(s) in PR`);
+    } else {
+      const { base, head } = commitContext;
+      core.info(`Scanning ${base ? `${base.slice(0, 7)}...${head.slice(0, 7)}` : `commit ${head.slice(0, 7)}`} in ${owner}/${repo}`);
+      files = await getCommitFiles(octokit, owner, repo, base, head, config.maxFiles);
+      core.info(`Found ${files.length} changed file(s)`);
+    }
 
     if (files.length === 0) {
       core.info('No files to scan');
+      await writeJobSummary(buildReportData([], 0), 0, false);
       return;
     }
 
-    const patterns = getEnabledPatterns(config.patterns);
+    const patterns = getEnabledPatterns(config.patterns, config.customPatterns, config.rules);
+    const filePatterns = getEnabledFilePatterns(config.patterns, config.customFilePatterns, config.rules);
     const headSha = getPRHeadSha();
-    const allFindings = [];
+    const allFindings: Finding[] = [];
+    // Files whose whole content was scanned, not just a diff
+    const fullyScanned = new Set<string>();
+    // Diff position of each added line, per file, for inline review comments
+    const diffPositions = new Map<string, Map<number, number>>();
+    const jobs: ScanJob[] = [];
+    // Whether each job's file has lines to scan, rather than just a path to judge
+    const hasContent: boolean[] = [];
     let filesScanned = 0;
     let filesSkipped = 0;
 
@@ -67,64 +155,147 @@ async function run(): Promise<void> {
         continue;
       }
 
-      let addedLines: { line: string; lineNumber: number }[] = [];
+      // Newly added files are also judged by their path, whatever their content
+      const filename = file.filename;
+      const newFile = file.status === 'added' || file.status === 'copied';
 
       if (file.patch) {
-        addedLines = extractAddedLines(file.patch);
+        jobs.push({ kind: 'diff', filename, patch: file.patch, newFile });
+        hasContent.push(extractAddedLines(file.patch).length > 0);
+        diffPositions.set(filename, extractDiffPositions(file.patch));
       } else {
-        core.debug(`No patch for ${file.filename}, fetching content`);
-        const content = await getFileContent(octokit, owner, repo, file.filename, headSha);
-        if (content) {
-          const lines = content.split('\n');
-          addedLines = lines.map((line, i) => ({ line, lineNumber: i + 1 }));
+        core.debug(`No patch for ${filename}, fetching content`);
+        const result = await getFileContent(octokit, owner, repo, filename, headSha, MAX_FETCHED_FILE_BYTES);
+        if ('content' in result && result.content) {
+          jobs.push({ kind: 'text', filename, text: result.content, newFile });
+          hasContent.push(true);
+          fullyScanned.add(filename);
+        } else {
+          // No content (e.g. binary or too large): judged by its path only
+          if ('skipped' in result && result.skipped === 'too large') {
+            core.warning(`${filename} is larger than ${MAX_FETCHED_FILE_BYTES / 1024} KB; only its path was checked`);
+          }
+          jobs.push({ kind: 'diff', filename, patch: '', newFile });
+          hasContent.push(false);
         }
       }
+    }
 
-      if (addedLines.length === 0) {
+    // Contents are fetched one by one above; the scanning itself runs on the worker pool
+    const results = await runScanJobs(jobs, config, config.concurrency);
+    results.forEach(({ findings, diagnostics }, i) => {
+      for (const diagnostic of diagnostics) core.warning(diagnostic.message, { file: diagnostic.file, startLine: diagnostic.line });
+      allFindings.push(...findings);
+      if (hasContent[i] || findings.length > 0) {
+        filesScanned++;
+      } else {
         filesSkipped++;
-        continue;
       }
+    });
+    sortFindings(allFindings);
 
-      const fileFindings = scanLines(file.filename, addedLines, config, patterns);
-      allFindings.push(...fileFindings);
-      filesScanned++;
-    }
+    // Findings silenced by inline markers are only listed in the report,
+    // findings accepted by the baseline are only counted
+    const suppressedFindings = allFindings.filter(f => f.suppressed);
+    const baseline = loadBaseline(config.baseline, actionLogger);
+    const baselineResult = applyBaseline(allFindings.filter(f => !f.suppressed), baseline);
+    const activeFindings = baselineResult.findings;
+    const staleEntries = findStaleEntries(baseline, baselineResult.matched, file => fs.existsSync(file), fullyScanned);
 
     core.info(`Scanned ${filesScanned} file(s), skipped ${filesSkipped} file(s)`);
-    core.info(`Found ${allFindings.length} potential secret(s)`);
-
-    core.setOutput('secrets_found', allFindings.length.toString());
-    const safeFindings = allFindings.map(f => ({
-      file: f.file,
-      line: f.line,
-      type: f.type,
-      severity: f.severity,
-      confidence: f.confidence,
-      snippet: f.snippet,
-      remediation: f.remediation,
-    }));
-    core.setOutput('findings', JSON.stringify(safeFindings));
-
-    if (allFindings.length > 0) {
-      const report = generateReport(allFindings, filesScanned);
-      await upsertComment(octokit, owner, repo, pullNumber, report);
-    } else if (config.postNoFindings) {
-      const report = generateReport([], filesScanned);
-      await upsertComment(octokit, owner, repo, pullNumber, report);
-    } else {
-      await deleteExistingComment(octokit, owner, repo, pullNumber);
+    core.info(
+      `Found ${activeFindings.length} potential secret(s), ${suppressedFindings.length} suppressed inline, ` +
+      `${baselineResult.baselined.length} in baseline`
+    );
+    if (staleEntries.length > 0) {
+      core.warning(`${staleEntries.length} baseline entries no longer match anything. Run \`keysentinel baseline\` to refresh ${config.baseline}.`);
+    }
+
+    if (config.verify.enabled && activeFindings.length > 0) {
+      core.info('Verifying findings against their providers...');
+      await verifyFindings(activeFindings, config.verify);
+    }
+
+    core.setOutput('secrets_found', activeFindings.length.toString());
+    core.setOutput('secrets_suppressed', suppressedFindings.length.toString());
+    core.setOutput('secrets_baselined', baselineResult.baselined.length.toString());
+    core.setOutput('findings', JSON.stringify(activeFindings.map(toSafeFinding)));
+
+    const sarifFile = core.getInput('sarif_file');
+    if (sarifFile) {
+      // Suppressed findings are included, marked as suppressed in source
+      const sarif = generateSarif([...activeFindings, ...suppressedFindings], [...patterns, ...filePatterns]);
+      fs.writeFileSync(sarifFile, JSON.stringify(sarif, null, 2), 'utf8');
+      core.info(`Wrote SARIF report to ${sarifFile}`);
+      core.setOutput('sarif_file', sarifFile);
+    }
+
+    const reportTargets = getReportTargets();
+    if (pullNumber === null) {
+      for (const target of ['comment', 'review'] as const) {
+        if (reportTargets.delete(target)) {
+          core.info(`No pull request for this run, skipping the ${target} report`);
+        }
+      }
     }
+    const failed = shouldFail(activeFindings, config.failOn);
+    const reportedFindings = [...activeFindings, ...suppressedFindings];
+    const baselineSummary = { baselined: baselineResult.baselined.length, stale: staleEntries };
 
-    if (shouldFail(allFindings, config.failOn)) {
-      for (const finding of allFindings) {
+    await writeJobSummary(buildReportData(reportedFindings, filesScanned, baselineSummary), filesSkipped, failed);
+
+    if (pullNumber !== null && reportTargets.has('comment')) {
+      if (reportedFindings.length > 0 || staleEntries.length > 0) {
+        // Also posted when every finding is suppressed, so reviewers see what was waved through
+        const report = generateReport(reportedFindings, filesScanned, baselineSummary);
+        await upsertComment(octokit, owner, repo, pullNumber, report);
+      } else if (config.postNoFindings) {
+        const report = generateReport([], filesScanned, baselineSummary);
+        await upsertComment(octokit, owner, repo, pullNumber, report);
+      } else {
+        await deleteExistingComment(octokit, owner, repo, pullNumber);
+      }
+    }
+
+    if (reportTargets.has('check')) {
+      // Findings below the fail_on threshold leave the check neutral rather than green
+      await createCheckRun(octokit, owner, repo, headSha, {
+        conclusion: failed ? 'failure' : activeFindings.length > 0 ? 'neutral' : 'success',
+        title: activeFindings.length > 0
+          ? `${activeFindings.length} potential secret(s) found`
+          : 'No secrets detected',
+        summary: generateReport(reportedFindings, filesScanned, baselineSummary),
+        annotations: buildAnnotations(activeFindings),
+      });
+    }
+
+    if (pullNumber !== null && reportTargets.has('review')) {
+      await syncReviewComments(
+        octokit,
+        owner,
+        repo,
+        pullNumber,
+        headSha,
+        buildReviewComments(activeFindings, diffPositions),
+        { requestChanges: core.getInput('request_changes') === 'true', failed }
+      );
+    }
+
+    if (failed) {
+      for (const finding of activeFindings) {
         core.warning(
-          `🚨 ${finding.severity.toUpperCase()}: ${finding.type} in ${finding.file}:${finding.line ?? 'N/A'} — ${maskSecret(finding.rawValue)}\n` +
+          `🚨 ${finding.severity.toUpperCase()}: ${finding.type} in ${finding.file}:${formatLineRange(finding)} — ${maskSecret(finding.rawValue)}\n` +
           `   🔧 Fix: ${finding.remediation}`
         );
       }
+      const reportName = reportTargets.has('comment')
+        ? 'PR comment'
+        : reportTargets.has('check')
+          ? 'check run'
+          : reportTargets.has('review') ? 'review comments' : 'job summary';
       core.setFailed(
-        `🚨 KeySentinel BLOCKED this PR: ${allFindings.length} secret(s) detected at or above "${config.failOn}" severity. ` +
-        `Remove the secrets, rotate the credentials, and push again. See the PR comment for detailed fix instructions.`
+        `🚨 KeySentinel BLOCKED this ${pullNumber !== null ? 'PR' : 'commit'}: ${activeFindings.length} secret(s) detected at or above "${config.failOn}" severity. ` +
+        `Remove the secrets, rotate the credentials, and push again. See the ${reportName} for detailed fix instructions.`
       );
     }
 
@@ -138,4 +309,7 @@ async function run(): Promise<void> {
   }
 }
 
-run();
+// Scan workers load this bundle too; only the main thread runs the Action
+if (isMainThread) {
+  run();
+}
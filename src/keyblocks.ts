@@ -0,0 +1,169 @@
+/**
+ * Multi-line private key block detection (PEM, OpenSSH and PGP armor)
+ */
+
+import { SecretPattern } from './patterns';
+
+export interface KeyBlock {
+  pattern: SecretPattern;
+  /** Finding label: the rule's name, or the key type named in the header for the generic rule */
+  name: string;
+  startLine: number;
+  endLine: number;
+  header: string;
+  /** END marker, or null when the block runs past the added lines */
+  footer: string | null;
+  /** Number of lines of key material between the markers */
+  bodyLines: number;
+  /** Full block text, BEGIN through END */
+  text: string;
+}
+
+// A wrapped line of base64 key material
+const BASE64_LINE = /^[A-Za-z0-9+/]+={0,2}$/;
+// Armor headers that may precede the body (Proc-Type:, DEK-Info:, Version:, Comment:)
+const ARMOR_HEADER = /^[A-Za-z-]+:\s/;
+// PGP armor checksum line
+const PGP_CHECKSUM = /^=[A-Za-z0-9+/]{4}$/;
+// Minimum length for a line to count as key material rather than noise
+const MIN_BODY_LINE_LENGTH = 16;
+
+/**
+ * Strip quoting and concatenation around a line embedded in source code,
+ * e.g. `"MIIEow...\n" +`
+ */
+function stripDecoration(line: string): string {
+  return line
+    .replace(/^[\s"'`+]+/, '')
+    .replace(/(?:\\n|[\s"'`+,;])+$/, '');
+}
+
+/**
+ * Label for a block: a key type captured from the header (`ED25519`) makes `ED25519 Private Key`
+ */
+function blockName(pattern: SecretPattern, match: RegExpExecArray): string {
+  const type = match[1]?.trim();
+  return type ? `${type} Private Key` : pattern.name;
+}
+
+function isKeyMaterial(text: string): boolean {
+  return text.length >= MIN_BODY_LINE_LENGTH && BASE64_LINE.test(text);
+}
+
+/**
+ * Find a block whose BEGIN and END markers sit on the same line with escaped
+ * newlines between them, as in JSON service account files.
+ */
+function findInlineBlock(
+  pattern: SecretPattern,
+  name: string,
+  line: string,
+  lineNumber: number,
+  header: string,
+  headerEnd: number
+): KeyBlock | null {
+  const footer = header.replace('BEGIN', 'END');
+  const rest = line.slice(headerEnd);
+  const footerIndex = rest.indexOf(footer);
+  if (footerIndex === -1) return null;
+
+  const body = rest
+    .slice(0, footerIndex)
+    .split(/\\n|\s+/)
+    .map(stripDecoration)
+    .filter(isKeyMaterial);
+  if (body.length === 0) return null;
+
+  return {
+    pattern,
+    name,
+    startLine: lineNumber,
+    endLine: lineNumber,
+    header,
+    footer,
+    bodyLines: body.length,
+    text: header + rest.slice(0, footerIndex + footer.length),
+  };
+}
+
+/**
+ * Find private key blocks spanning consecutive added lines.
+ *
+ * A BEGIN marker only counts when key material follows it, so documentation
+ * that merely shows the header is not reported. Blocks whose END marker is not
+ * among the added lines are still returned, with `footer: null`.
+ */
+export function findPrivateKeyBlocks(
+  addedLines: { line: string; lineNumber: number }[],
+  patterns: SecretPattern[]
+): KeyBlock[] {
+  const blockPatterns = patterns.filter(p => p.multiline);
+  const blocks: KeyBlock[] = [];
+
+  for (let i = 0; i < addedLines.length; i++) {
+    const { line, lineNumber } = addedLines[i];
+
+    for (const pattern of blockPatterns) {
+      pattern.pattern.lastIndex = 0;
+      const match = pattern.pattern.exec(line);
+      if (!match) continue;
+
+      const header = match[0];
+      const name = blockName(pattern, match);
+      const inline = findInlineBlock(pattern, name, line, lineNumber, header, match.index + header.length);
+      if (inline) {
+        blocks.push(inline);
+        continue;
+      }
+
+      const footerMarker = header.replace('BEGIN', 'END');
+      const textLines = [header];
+      let footer: string | null = null;
+      let bodyLines = 0;
+      let endLine = lineNumber;
+
+      // Walk forward while the added lines stay contiguous in the new file
+      for (let j = i + 1; j < addedLines.length; j++) {
+        const next = addedLines[j];
+        if (next.lineNumber !== addedLines[j - 1].lineNumber + 1) break;
+
+        if (next.line.includes(footerMarker)) {
+          footer = footerMarker;
+          textLines.push(footerMarker);
+          endLine = next.lineNumber;
+          break;
+        }
+
+        const text = stripDecoration(next.line);
+        if (isKeyMaterial(text)) {
+          bodyLines++;
+        } else if (
+          text !== '' &&
+          !BASE64_LINE.test(text) &&
+          !ARMOR_HEADER.test(text) &&
+          !PGP_CHECKSUM.test(text)
+        ) {
+          // Anything else ends the block
+          break;
+        }
+        textLines.push(text);
+        endLine = next.lineNumber;
+      }
+
+      if (bodyLines === 0) continue;
+
+      blocks.push({
+        pattern,
+        name,
+        startLine: lineNumber,
+        endLine,
+        header,
+        footer,
+        bodyLines,
+        text: textLines.join('\n'),
+      });
+    }
+  }
+
+  return blocks;
+}
@@ -0,0 +1,234 @@
+/**
+ * Infrastructure manifest detectors: Kubernetes Secrets, Helm values,
+ * Terraform (.tf / .tfvars) and docker-compose files.
+ *
+ * Each detector understands its file's layout and reports with severity and
+ * remediation tailored to it (see MANIFEST_RULES).
+ */
+
+import * as yaml from 'js-yaml';
+import { Finding, MANIFEST_RULES, StructuralRule, calculateEntropy } from './patterns';
+import { Config, isAllowlisted } from './config';
+import { maskLine } from './mask';
+import { ScanContext, createScanContext, reportBudgetOverrun } from './redos';
+import {
+  AddedLine,
+  flatten,
+  isContiguous,
+  isSecretKeyName,
+  isSecretValue,
+  locateValue,
+} from './structured';
+
+interface ManifestValue {
+  rule: StructuralRule;
+  keyPath: string;
+  key: string;
+  /** Text to locate and mask on the line (the encoded form for Secret `data`) */
+  literal: string;
+  /** The secret itself */
+  value: string;
+}
+
+function loadYamlDocuments(addedLines: AddedLine[]): Record<string, unknown>[] | null {
+  if (!isContiguous(addedLines)) return null;
+  try {
+    return yaml
+      .loadAll(addedLines.map(l => l.line).join('\n'))
+      .filter((doc): doc is Record<string, unknown> => !!doc && typeof doc === 'object' && !Array.isArray(doc));
+  } catch {
+    return null;
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+/**
+ * Kubernetes `kind: Secret`: every `data` entry is decoded, every `stringData` entry is literal.
+ * Only empty values and placeholders are accepted.
+ */
+function findKubernetesSecretValues(docs: Record<string, unknown>[]): ManifestValue[] {
+  const values: ManifestValue[] = [];
+
+  docs.forEach((doc, i) => {
+    if (doc.kind !== 'Secret') return;
+    const name = asRecord(doc.metadata)?.name ?? `document[${i}]`;
+
+    for (const [key, raw] of Object.entries(asRecord(doc.data) ?? {})) {
+      if (typeof raw !== 'string' || raw.trim() === '') continue;
+      const decoded = Buffer.from(raw.trim(), 'base64').toString('utf8');
+      if (isPlaceholder(decoded)) continue;
+      values.push({ rule: MANIFEST_RULES.kubernetesSecret, keyPath: `${name}.data.${key}`, key, literal: raw.trim(), value: decoded });
+    }
+
+    for (const [key, raw] of Object.entries(asRecord(doc.stringData) ?? {})) {
+      if (typeof raw !== 'string' || isPlaceholder(raw)) continue;
+      values.push({ rule: MANIFEST_RULES.kubernetesSecret, keyPath: `${name}.stringData.${key}`, key, literal: raw, value: raw });
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Empty, template and placeholder values in Secret manifests
+ */
+function isPlaceholder(value: string): boolean {
+  const trimmed = value.trim();
+  if (trimmed === '') return true;
+  return /^(?:<[^>]*>|\$\{[^}]*\}|\{\{.*\}\}|changeme|change[_-]?me|replace[_-]?me|placeholder|todo|dummy|x{3,}|\*+)$/i.test(trimmed);
+}
+
+/**
+ * Helm values files: credential-named keys holding literal values
+ */
+function findHelmValues(docs: Record<string, unknown>[]): ManifestValue[] {
+  const leaves: { keyPath: string; key: string; value: string }[] = [];
+  for (const doc of docs) flatten(doc, '', '', leaves);
+
+  return leaves
+    .filter(leaf => isSecretKeyName(leaf.key) && isSecretValue(leaf.value))
+    .map(leaf => ({ rule: MANIFEST_RULES.helmValues, ...leaf, literal: leaf.value }));
+}
+
+/**
+ * docker-compose: literal credentials in `services.*.environment` (map or `KEY=value` list)
+ */
+function findComposeEnvironment(docs: Record<string, unknown>[]): ManifestValue[] {
+  const values: ManifestValue[] = [];
+
+  for (const doc of docs) {
+    for (const [service, definition] of Object.entries(asRecord(doc.services) ?? {})) {
+      const environment = asRecord(definition)?.environment;
+      if (!environment) continue;
+
+      const leaves: { keyPath: string; key: string; value: string }[] = [];
+      flatten(environment, `services.${service}.environment`, '', leaves);
+      for (const leaf of leaves) {
+        if (isSecretKeyName(leaf.key) && isSecretValue(leaf.value)) {
+          values.push({ rule: MANIFEST_RULES.dockerCompose, ...leaf, literal: leaf.value });
+        }
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Terraform: `default` values of variables declared `sensitive = true`, and
+ * credential-named arguments or tfvars assignments with literal string values
+ */
+function findTerraformValues(addedLines: AddedLine[]): ManifestValue[] {
+  const values: ManifestValue[] = [];
+  let variable: { name: string; sensitive: boolean; defaultValue: string | null; depth: number } | null = null;
+  let depth = 0;
+
+  for (const { line } of addedLines) {
+    const declaration = line.match(/^\s*variable\s+"([^"]+)"\s*\{/);
+    if (declaration) {
+      variable = { name: declaration[1], sensitive: false, defaultValue: null, depth };
+    }
+
+    const assignment = line.match(/^\s*([A-Za-z_][A-Za-z0-9_-]*)\s*=\s*"([^"]*)"/);
+    if (variable) {
+      if (/^\s*sensitive\s*=\s*true\b/.test(line)) variable.sensitive = true;
+      if (assignment && assignment[1] === 'default') variable.defaultValue = assignment[2];
+    } else if (assignment && isSecretKeyName(assignment[1]) && isSecretValue(assignment[2])) {
+      values.push({
+        rule: MANIFEST_RULES.terraform,
+        keyPath: assignment[1],
+        key: assignment[1],
+        literal: assignment[2],
+        value: assignment[2],
+      });
+    }
+
+    depth += (line.match(/\{/g) ?? []).length - (line.match(/\}/g) ?? []).length;
+
+    // Variable block closed: report a literal default for a sensitive variable
+    if (variable && depth <= variable.depth) {
+      if (variable.sensitive && variable.defaultValue && !isPlaceholder(variable.defaultValue)) {
+        values.push({
+          rule: MANIFEST_RULES.terraform,
+          keyPath: `var.${variable.name}`,
+          key: 'default',
+          literal: variable.defaultValue,
+          value: variable.defaultValue,
+        });
+      }
+      variable = null;
+    }
+  }
+
+  return values;
+}
+
+function findManifestValues(filename: string, addedLines: AddedLine[]): ManifestValue[] | null {
+  const base = filename.replace(/\\/g, '/').split('/').pop()!.toLowerCase();
+
+  if (base.endsWith('.tf') || base.endsWith('.tfvars')) {
+    return findTerraformValues(addedLines);
+  }
+
+  if (!base.endsWith('.yml') && !base.endsWith('.yaml')) return null;
+
+  if (/^(?:docker-)?compose(?:[.-][\w.-]+)?\.ya?ml$/.test(base)) {
+    const docs = loadYamlDocuments(addedLines);
+    return docs ? findComposeEnvironment(docs) : null;
+  }
+  if (/^values(?:[.-][\w.-]+)?\.ya?ml$/.test(base)) {
+    const docs = loadYamlDocuments(addedLines);
+    return docs ? findHelmValues(docs) : null;
+  }
+  if (addedLines.some(l => /^kind:\s*Secret\s*$/.test(l.line))) {
+    const docs = loadYamlDocuments(addedLines);
+    return docs ? findKubernetesSecretValues(docs) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Scan a file with the manifest detector matching its name and content.
+ * Returns null when the file is not a recognised manifest or does not parse.
+ */
+export function scanManifest(
+  filename: string,
+  addedLines: AddedLine[],
+  config: Config,
+  context: ScanContext = createScanContext()
+): Finding[] | null {
+  const values = findManifestValues(filename, addedLines);
+  if (!values) return null;
+
+  const findings: Finding[] = [];
+  const lineText = new Map(addedLines.map(l => [l.lineNumber, l.line]));
+
+  for (const { rule, keyPath, key, literal, value } of values) {
+    const override = config.rules[rule.id];
+    if (override?.enabled === false) continue;
+    if (override?.enabled !== true && config.patterns[rule.group] === false) continue;
+    const lineNumber = locateValue(addedLines, key, literal);
+    if (lineNumber === null) continue;
+    const onAllowlistOverrun = (regex: RegExp): void => reportBudgetOverrun(context, regex, null, filename, lineNumber);
+    if (isAllowlisted(value, config.allowlist, context, onAllowlistOverrun)) continue;
+
+    findings.push({
+      file: filename,
+      line: lineNumber,
+      ruleId: rule.id,
+      type: rule.name,
+      severity: override?.severity ?? rule.severity,
+      confidence: override?.confidence ?? (calculateEntropy(value) >= 3.5 ? 'high' : 'medium'),
+      snippet: maskLine(lineText.get(lineNumber) ?? literal, literal),
+      rawValue: value,
+      remediation: rule.remediation,
+      keyPath,
+    });
+  }
+
+  return findings;
+}
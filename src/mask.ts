@@ -72,6 +72,21 @@ export function maskLine(
   return maskedLine;
 }
 
+/**
+ * Mask a multi-line block (e.g. a private key), keeping only its markers
+ * @param header The BEGIN marker line
+ * @param footer The END marker line, or null if the block is truncated
+ * @param hiddenLines Number of body lines being hidden
+ */
+export function maskBlock(
+  header: string,
+  footer: string | null,
+  hiddenLines: number
+): string {
+  const masked = `[${hiddenLines} line${hiddenLines !== 1 ? 's' : ''} masked]`;
+  return footer ? `${header} ${masked} ${footer}` : `${header} ${masked} ...`;
+}
+
 /**
  * Mask multiple occurrences of secrets in a text
  */
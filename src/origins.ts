@@ -0,0 +1,150 @@
+/**
+ * Effective config with the origin of each value, for `keysentinel config print`.
+ *
+ * The config is built one source at a time (defaults, then the configs the
+ * config file extends, then the file itself, then overrides such as
+ * command-line flags), and each value is attributed to
+ * the last source that changed it. List items are attributed to the first
+ * source that had them, so defaults stay marked as defaults when a config file
+ * adds to a list.
+ */
+
+import * as path from 'path';
+import { buildConfig, Config, ConfigLogger, ConfigOverrides, ConfigSource, loadConfigChain } from './config';
+import { mergeYamlConfigs } from './extends';
+
+export interface ConfigLayer {
+  /** Where the layer's values come from: `default`, a config file, `command line`, ... */
+  origin: string;
+  config: Config;
+}
+
+export interface ConfigValue {
+  /** Key path in the effective config, e.g. `entropy.threshold` or `ignore[3]` */
+  path: string;
+  value: unknown;
+  origin: string;
+}
+
+/**
+ * A config as plain data: regexes become their source
+ */
+export function toPlainConfig(config: Config): Record<string, unknown> {
+  const plain = {
+    ...config,
+    allowlist: config.allowlist.map(regex => regex.source),
+    customPatterns: config.customPatterns.map(pattern => ({
+      id: pattern.id,
+      name: pattern.name,
+      regex: pattern.pattern.source,
+      severity: pattern.severity,
+      group: pattern.group,
+      keywords: pattern.keywords,
+      captureGroup: pattern.captureGroup,
+      remediation: pattern.remediation,
+    })),
+    customFilePatterns: config.customFilePatterns.map(pattern => ({
+      id: pattern.id,
+      name: pattern.name,
+      path: pattern.pattern.source,
+      content: pattern.contentPattern?.source,
+      severity: pattern.severity,
+      group: pattern.group,
+      remediation: pattern.remediation,
+    })),
+  };
+  // Drops unset optional fields
+  return JSON.parse(JSON.stringify(plain));
+}
+
+function valueAt(root: unknown, keys: (string | number)[]): unknown {
+  let value = root;
+  for (const key of keys) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string | number, unknown>)[key];
+  }
+  return value;
+}
+
+function flatten(value: unknown, prefix: string, origin: string, out: ConfigValue[]): void {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, i) => flatten(item, `${prefix}[${i}]`, origin, out));
+  } else if (value !== null && typeof value === 'object' && Object.keys(value).length > 0) {
+    for (const [key, child] of Object.entries(value)) flatten(child, `${prefix}.${key}`, origin, out);
+  } else {
+    out.push({ path: prefix, value, origin });
+  }
+}
+
+/**
+ * Every value of the last layer's config, with the source it came from
+ */
+export function describeConfig(layers: ConfigLayer[]): ConfigValue[] {
+  const plain = layers.map(layer => toPlainConfig(layer.config));
+  const values: ConfigValue[] = [];
+
+  const walk = (value: unknown, keys: (string | number)[], prefix: string): void => {
+    if (Array.isArray(value) && value.length > 0) {
+      value.forEach((item, i) => {
+        const json = JSON.stringify(item);
+        const first = plain.findIndex(layer => {
+          const list = valueAt(layer, keys);
+          return Array.isArray(list) && list.some(other => JSON.stringify(other) === json);
+        });
+        flatten(item, `${prefix}[${i}]`, layers[first].origin, values);
+      });
+      return;
+    }
+
+    if (value !== null && typeof value === 'object' && Object.keys(value).length > 0) {
+      for (const [key, child] of Object.entries(value)) {
+        walk(child, [...keys, key], prefix ? `${prefix}.${key}` : key);
+      }
+      return;
+    }
+
+    let changed = 0;
+    for (let i = 1; i < plain.length; i++) {
+      if (JSON.stringify(valueAt(plain[i], keys)) !== JSON.stringify(valueAt(plain[i - 1], keys))) changed = i;
+    }
+    values.push({ path: prefix, value, origin: layers[changed].origin });
+  };
+
+  walk(plain[plain.length - 1], [], '');
+  return values;
+}
+
+/**
+ * Build the config source by source, as loadConfigForCli does, keeping each step
+ */
+export function loadConfigLayers(options: {
+  cwd?: string;
+  configPath?: string;
+  overrides?: ConfigOverrides;
+  /** Name of the overrides' source (default: `overrides`) */
+  overridesOrigin?: string;
+  logger?: ConfigLogger;
+}): ConfigLayer[] {
+  const cwd = options.cwd ?? process.cwd();
+  const configPath = options.configPath ?? path.join(cwd, '.keysentinel.yml');
+  const logger = options.logger ?? console;
+  const overrides = options.overrides ?? {};
+  const hasOverrides = Object.values(overrides).some(value => value !== undefined);
+  const sources = loadConfigChain(configPath, logger);
+
+  // Each layer adds to the same input, so only the last one reports its problems
+  const layers: ConfigLayer[] = [{ origin: 'default', config: buildConfig(null, {}, {}) }];
+  let yamlConfig: ConfigSource['config'] | null = null;
+  for (const [i, source] of sources.entries()) {
+    yamlConfig = yamlConfig ? mergeYamlConfigs(yamlConfig, source.config) : source.config;
+    const last = i === sources.length - 1 && !hasOverrides;
+    layers.push({
+      origin: path.relative(cwd, path.resolve(cwd, source.path)) || source.path,
+      config: buildConfig(yamlConfig, {}, last ? logger : {}),
+    });
+  }
+  if (hasOverrides) {
+    layers.push({ origin: options.overridesOrigin ?? 'overrides', config: buildConfig(yamlConfig, overrides, logger) });
+  }
+  return layers;
+}
@@ -0,0 +1,149 @@
+/**
+ * Worker thread pool for scanning many files at once.
+ *
+ * Scan jobs are handed out to workers as they become free, and the results come
+ * back in job order, so the findings don't depend on which worker finished
+ * first. Small batches are scanned in-process, where starting workers would
+ * cost more than it saves.
+ */
+
+import * as os from 'os';
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
+import { Config } from './config';
+import { Finding } from './patterns';
+import { SkipReason } from './walk';
+import { ScanContext, ScanDiagnostic, createScanContext } from './redos';
+import { scanDiff, scanFileStreaming, scanText } from './api';
+
+export type ScanJob =
+  /** Lines added by a patch of one file */
+  | { kind: 'diff'; filename: string; patch: string; newFile: boolean }
+  /** A text in full, e.g. a file's content fetched from the API */
+  | { kind: 'text'; filename: string; text: string; newFile: boolean }
+  /** A file on disk in full, streamed when it is large */
+  | { kind: 'file'; file: string; cwd: string; maxFileBytes?: number };
+
+export interface ScanJobResult {
+  findings: Finding[];
+  /** Why a file job's content was not scanned */
+  skipped?: SkipReason | 'ignored';
+  /** Patterns that ran out of their time budget, for instance */
+  diagnostics: ScanDiagnostic[];
+}
+
+// Below this many jobs, workers aren't worth starting
+const MIN_JOBS_PER_WORKER = 8;
+
+interface WorkerRequest {
+  id: number;
+  job: ScanJob;
+}
+
+type WorkerResponse = { id: number; result: ScanJobResult } | { id: number; error: string };
+
+/**
+ * The number of workers for a `concurrency` setting; 0 means one per CPU
+ */
+export function resolveConcurrency(concurrency: number): number {
+  if (concurrency > 0) return concurrency;
+  return typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+}
+
+/**
+ * Run one job as part of the scan `context` belongs to. Each thread runs its
+ * jobs one at a time, so the context's new diagnostics are all this job's.
+ */
+async function runJob(job: ScanJob, config: Config, context: ScanContext): Promise<ScanJobResult> {
+  let findings: Finding[];
+  let skipped: ScanJobResult['skipped'];
+
+  switch (job.kind) {
+    case 'diff':
+      findings = scanDiff(job.patch, { config, filename: job.filename, newFile: job.newFile, context });
+      break;
+    case 'text':
+      findings = scanText(job.text, { config, filename: job.filename, newFile: job.newFile, context });
+      break;
+    case 'file':
+      findings = await scanFileStreaming(job.file, {
+        config,
+        cwd: job.cwd,
+        maxFileBytes: job.maxFileBytes,
+        onSkip: (_file, reason) => (skipped = reason),
+        context,
+      });
+      break;
+  }
+
+  return { findings, skipped, diagnostics: context.diagnostics.splice(0) };
+}
+
+async function runInProcess(jobs: ScanJob[], config: Config): Promise<ScanJobResult[]> {
+  const context = createScanContext();
+  const results: ScanJobResult[] = [];
+  for (const job of jobs) results.push(await runJob(job, config, context));
+  return results;
+}
+
+/**
+ * Run scan jobs on up to `concurrency` worker threads (0 for one per CPU).
+ * Results are in the order of `jobs`.
+ */
+export async function runScanJobs(jobs: ScanJob[], config: Config, concurrency: number): Promise<ScanJobResult[]> {
+  const workerCount = Math.min(resolveConcurrency(concurrency), Math.floor(jobs.length / MIN_JOBS_PER_WORKER));
+  if (workerCount <= 1) return runInProcess(jobs, config);
+
+  const results: ScanJobResult[] = new Array(jobs.length);
+  const workers: Worker[] = [];
+  let next = 0;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let done = 0;
+
+      const dispatch = (worker: Worker): void => {
+        if (next >= jobs.length) return;
+        const id = next++;
+        worker.postMessage({ id, job: jobs[id] } as WorkerRequest);
+      };
+
+      for (let i = 0; i < workerCount; i++) {
+        const worker = new Worker(__filename, { workerData: { keysentinelWorker: true, config } });
+        worker.on('message', (response: WorkerResponse) => {
+          if ('error' in response) {
+            reject(new Error(response.error));
+            return;
+          }
+          results[response.id] = response.result;
+          if (++done === jobs.length) resolve();
+          else dispatch(worker);
+        });
+        worker.on('error', reject);
+        worker.on('exit', code => {
+          if (done < jobs.length) reject(new Error(`Scan worker exited with code ${code}`));
+        });
+        workers.push(worker);
+        dispatch(worker);
+      }
+    });
+  } finally {
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  return results;
+}
+
+// Worker side: scan the jobs the pool sends, with the config it was started with
+if (!isMainThread && parentPort && workerData?.keysentinelWorker) {
+  const port = parentPort;
+  const config = workerData.config as Config;
+  // A worker serves a single runScanJobs call, so this is that scan's
+  const context = createScanContext();
+
+  port.on('message', ({ id, job }: WorkerRequest) => {
+    runJob(job, config, context).then(
+      result => port.postMessage({ id, result } as WorkerResponse),
+      (error: unknown) => port.postMessage({ id, error: error instanceof Error ? error.message : String(error) } as WorkerResponse)
+    );
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Keyword prefilter for pattern scanning.
+ *
+ * Patterns declare literal keywords, at least one of which appears in every
+ * match (`AKIA`, `ghp_`, `xoxb-`, ...). One Aho-Corasick pass over a line finds
+ * the keywords present, and only the patterns they belong to (plus patterns
+ * without keywords) run their regex. Matching is ASCII case-insensitive, which
+ * is never stricter than the patterns themselves, so the prefilter only skips
+ * patterns that cannot match and findings are unchanged.
+ */
+
+import { SecretPattern } from './patterns';
+
+export interface KeywordIndex {
+  patterns: SecretPattern[];
+  /** Patterns without keywords, which run on every line */
+  always: boolean[];
+  /** Trie transitions, by state, keyed by (lowercase) character code */
+  next: Map<number, number>[];
+  /** Failure link of each state */
+  fail: number[];
+  /** Indices of the patterns whose keywords end at each state */
+  output: number[][];
+}
+
+export interface Prefiltered {
+  /** Patterns that may match, in their original order */
+  candidates: SecretPattern[];
+  /** Longest run of entropy token characters (`[A-Za-z0-9_+/-]`) in the text */
+  longestToken: number;
+}
+
+function lowerAscii(code: number): number {
+  return code >= 65 && code <= 90 ? code + 32 : code;
+}
+
+function isTokenChar(code: number): boolean {
+  return (
+    (code >= 48 && code <= 57) || // 0-9
+    (code >= 65 && code <= 90) || // A-Z
+    (code >= 97 && code <= 122) || // a-z
+    code === 95 || code === 45 || code === 43 || code === 47 // _ - + /
+  );
+}
+
+/**
+ * Build the keyword automaton for a pattern set
+ */
+export function buildKeywordIndex(patterns: SecretPattern[]): KeywordIndex {
+  const index: KeywordIndex = { patterns, always: [], next: [new Map()], fail: [0], output: [[]] };
+
+  patterns.forEach((pattern, patternIndex) => {
+    const keywords = (pattern.keywords ?? []).filter(Boolean);
+    index.always.push(keywords.length === 0);
+
+    for (const keyword of keywords) {
+      let state = 0;
+      for (let i = 0; i < keyword.length; i++) {
+        const code = lowerAscii(keyword.charCodeAt(i));
+        let target = index.next[state].get(code);
+        if (target === undefined) {
+          target = index.next.length;
+          index.next.push(new Map());
+          index.fail.push(0);
+          index.output.push([]);
+          index.next[state].set(code, target);
+        }
+        state = target;
+      }
+      index.output[state].push(patternIndex);
+    }
+  });
+
+  // Failure links, breadth first, so each state also reports the keywords ending in its suffixes
+  const queue = [...index.next[0].values()];
+  while (queue.length > 0) {
+    const state = queue.shift() as number;
+    for (const [code, target] of index.next[state]) {
+      let fallback = index.fail[state];
+      while (fallback !== 0 && !index.next[fallback].has(code)) fallback = index.fail[fallback];
+      const link = index.next[fallback].get(code);
+      index.fail[target] = link !== undefined && link !== target ? link : 0;
+      index.output[target] = [...index.output[target], ...index.output[index.fail[target]]];
+      queue.push(target);
+    }
+  }
+
+  return index;
+}
+
+// Automata by pattern set; the same array is reused for every line of a scan
+const indexCache = new WeakMap<SecretPattern[], KeywordIndex>();
+
+export function getKeywordIndex(patterns: SecretPattern[]): KeywordIndex {
+  let index = indexCache.get(patterns);
+  if (!index) {
+    index = buildKeywordIndex(patterns);
+    indexCache.set(patterns, index);
+  }
+  return index;
+}
+
+/**
+ * Select the patterns that may match a text, in one pass over it
+ */
+export function prefilter(index: KeywordIndex, text: string): Prefiltered {
+  const hit = new Uint8Array(index.patterns.length);
+  let state = 0;
+  let run = 0;
+  let longestToken = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+
+    if (isTokenChar(code)) {
+      run++;
+      if (run > longestToken) longestToken = run;
+    } else {
+      run = 0;
+    }
+
+    const lower = lowerAscii(code);
+    let target = index.next[state].get(lower);
+    while (target === undefined && state !== 0) {
+      state = index.fail[state];
+      target = index.next[state].get(lower);
+    }
+    state = target ?? 0;
+    for (const patternIndex of index.output[state]) hit[patternIndex] = 1;
+  }
+
+  const candidates: SecretPattern[] = [];
+  for (let i = 0; i < index.patterns.length; i++) {
+    if (index.always[i] || hit[i]) candidates.push(index.patterns[i]);
+  }
+  return { candidates, longestToken };
+}
@@ -0,0 +1,279 @@
+/**
+ * Protection against catastrophic backtracking in user-supplied regexes.
+ *
+ * Allowlist entries and custom rules come straight from `.keysentinel.yml` and
+ * Action inputs. They are screened for the constructs that backtrack
+ * exponentially when the config is built, and all of them are run under a
+ * time budget per line, in a sandbox that can interrupt them, so one bad
+ * pattern can't hang a scan.
+ */
+
+import * as vm from 'vm';
+
+/** Time a user-supplied pattern may spend on one line */
+export const PATTERN_BUDGET_MS = 100;
+
+/** Overruns after which a pattern is given up on for the rest of the scan */
+export const MAX_BUDGET_OVERRUNS = 3;
+
+export interface ScanDiagnostic {
+  file: string;
+  /** Unset for a problem with the file's path */
+  line?: number;
+  ruleId: string;
+  message: string;
+}
+
+interface GroupFrame {
+  /** Source index of the opening parenthesis */
+  open: number;
+  /** Source index just after the opening parenthesis (and any `?:`-style prefix) */
+  start: number;
+  /** Source indices of the top-level `|` in the group */
+  bars: number[];
+  /** Whether anything in the group repeats without bound */
+  unbounded: boolean;
+}
+
+// Single-character atoms that match everything another atom does
+const WIDER_ATOMS: Record<string, (atom: string) => boolean> = {
+  '.': atom => atom !== '\\n',
+  '\\w': atom => /^(?:[A-Za-z0-9_]|\\d)$/.test(atom),
+  '\\S': atom => /^(?:[^\s\\]|\\[dw])$/.test(atom),
+  '\\D': atom => /^(?:[^0-9\\]|\\[sSwW])$/.test(atom),
+};
+
+/**
+ * Whether the alternatives of a repeated group can match the same text in
+ * more than one way: duplicates, one repeating another (`a|aa`), or one
+ * single-character atom covering another (`\w|\d`)
+ */
+function alternativesOverlap(alternatives: string[]): boolean {
+  for (let i = 0; i < alternatives.length; i++) {
+    for (let j = 0; j < alternatives.length; j++) {
+      if (i === j) continue;
+      const [a, b] = [alternatives[i], alternatives[j]];
+      if (a === b && a !== '') return true;
+      if (a && b.length > a.length && b.length % a.length === 0 && a.repeat(b.length / a.length) === b) return true;
+      if (WIDER_ATOMS[a]?.(b)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Parse a quantifier at `i`: its length (0 if there is none) and whether it is unbounded
+ */
+function readQuantifier(source: string, i: number): { length: number; unbounded: boolean } {
+  const c = source[i];
+  let length = 0;
+  let unbounded = false;
+
+  if (c === '*' || c === '+') {
+    length = 1;
+    unbounded = true;
+  } else if (c === '?') {
+    length = 1;
+  } else if (c === '{') {
+    const brace = /^\{(\d+)(,(\d*))?\}/.exec(source.slice(i));
+    if (brace) {
+      length = brace[0].length;
+      unbounded = brace[2] !== undefined && brace[3] === '';
+    }
+  }
+
+  // Lazy suffix
+  if (length > 0 && source[i + length] === '?') length++;
+  return { length, unbounded };
+}
+
+/**
+ * Screen a regex source for constructs that backtrack exponentially: a repeated
+ * group that itself contains unbounded repetition (`(a+)+`, `(\w*\s?)*`), or a
+ * repeated group whose alternatives overlap (`(a|aa)*`, `(\w|\d)+`). Returns a
+ * description of the first one found, or null. This is a heuristic: it can
+ * miss dangerous patterns, which the per-line budget then stops.
+ */
+export function findReDoSRisk(source: string): string | null {
+  const stack: GroupFrame[] = [{ open: 0, start: 0, bars: [], unbounded: false }];
+
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    const frame = stack[stack.length - 1];
+    let atomEnd = i + 1;
+
+    if (c === '\\') {
+      atomEnd = i + 2;
+    } else if (c === '[') {
+      // Character class: runs to the first unescaped `]` (a leading one is literal)
+      let j = source[i + 1] === '^' ? i + 2 : i + 1;
+      if (source[j] === ']') j++;
+      while (j < source.length && source[j] !== ']') j += source[j] === '\\' ? 2 : 1;
+      atomEnd = j + 1;
+    } else if (c === '(') {
+      const prefix = /^\(\?(?::|=|!|<=|<!|<[A-Za-z_$][\w$]*>)/.exec(source.slice(i));
+      const start = i + (prefix ? prefix[0].length : 1);
+      stack.push({ open: i, start, bars: [], unbounded: false });
+      i = start - 1;
+      continue;
+    } else if (c === '|') {
+      frame.bars.push(i);
+      continue;
+    } else if (c === ')') {
+      if (stack.length === 1) continue;
+      const group = stack.pop() as GroupFrame;
+      const alternatives: string[] = [];
+      let from = group.start;
+      for (const bar of [...group.bars, i]) {
+        alternatives.push(source.slice(from, bar));
+        from = bar + 1;
+      }
+
+      const quantifier = readQuantifier(source, i + 1);
+      if (quantifier.unbounded) {
+        const text = source.slice(group.open, i + 1 + quantifier.length);
+        if (group.unbounded) return `nested quantifier in "${text}"`;
+        if (alternativesOverlap(alternatives)) return `overlapping alternatives in "${text}"`;
+      }
+      const parent = stack[stack.length - 1];
+      parent.unbounded = parent.unbounded || group.unbounded || quantifier.unbounded;
+      i += quantifier.length;
+      continue;
+    }
+
+    const quantifier = readQuantifier(source, atomEnd);
+    if (quantifier.unbounded) frame.unbounded = true;
+    i = atomEnd + quantifier.length - 1;
+  }
+
+  return null;
+}
+
+/**
+ * All matches of a global regex in a text. Zero-length matches advance by one
+ * character so the loop always ends.
+ */
+export function execAll(regex: RegExp, text: string): RegExpExecArray[] {
+  const matches: RegExpExecArray[] = [];
+  regex.lastIndex = 0;
+  if (!regex.global) {
+    const match = regex.exec(text);
+    return match ? [match] : [];
+  }
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    matches.push(match);
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return matches;
+}
+
+// A separate context whose scripts can be interrupted mid-match by a timeout
+let sandbox: { context: vm.Context; single: vm.Script; batch: vm.Script } | undefined;
+
+/**
+ * Budget state of one scan: how often each user regex ran out of time, and the
+ * problems met. A scan owns its context, so a pattern given up on in one scan
+ * runs again in the next, and concurrent scans don't see each other's problems.
+ */
+export interface ScanContext {
+  overruns: Map<RegExp, number>;
+  diagnostics: ScanDiagnostic[];
+}
+
+export function createScanContext(): ScanContext {
+  return { overruns: new Map(), diagnostics: [] };
+}
+
+/**
+ * The number of times a regex has run out of its budget in a scan
+ */
+export function budgetOverruns(context: ScanContext, regex: RegExp): number {
+  return context.overruns.get(regex) ?? 0;
+}
+
+function runInSandbox<T>(pick: 'single' | 'batch', values: Record<string, unknown>, budgetMs: number): T | null {
+  if (!sandbox) {
+    const context = vm.createContext({});
+    // The same matching loop, defined inside the sandbox
+    vm.runInContext(execAll.toString(), context);
+    sandbox = {
+      context,
+      single: new vm.Script('execAll(regex, text)'),
+      batch: new vm.Script('texts.map(text => execAll(regex, text))'),
+    };
+  }
+
+  Object.assign(sandbox.context, values);
+  try {
+    return sandbox[pick].runInContext(sandbox.context, { timeout: budgetMs }) as T;
+  } catch (e) {
+    if ((e as { code?: string }).code !== 'ERR_SCRIPT_EXECUTION_TIMEOUT') throw e;
+    return null;
+  } finally {
+    for (const key of Object.keys(values)) sandbox.context[key] = undefined;
+  }
+}
+
+/**
+ * execAll, interrupted after `budgetMs`. Returns null when the budget runs out,
+ * which counts as an overrun in `context`.
+ */
+export function execWithBudget(
+  regex: RegExp,
+  text: string,
+  budgetMs: number,
+  context?: ScanContext
+): RegExpExecArray[] | null {
+  const matches = runInSandbox<RegExpExecArray[]>('single', { regex, text }, budgetMs);
+  if (matches === null && context) context.overruns.set(regex, budgetOverruns(context, regex) + 1);
+  return matches;
+}
+
+/**
+ * execAll over many texts, each within the pattern budget. They all run in one
+ * sandbox call, which costs about as much as a single one; only when that call
+ * runs out of time does each text get a call of its own, so that just the texts
+ * the regex can't finish are lost (null). A regex given up on matches nothing.
+ */
+export function execAllWithBudget(regex: RegExp, texts: string[], context: ScanContext): (RegExpExecArray[] | null)[] {
+  if (texts.length === 0) return [];
+  if (budgetOverruns(context, regex) >= MAX_BUDGET_OVERRUNS) return texts.map(() => []);
+
+  const all = runInSandbox<RegExpExecArray[][]>('batch', { regex, texts }, PATTERN_BUDGET_MS);
+  if (all !== null) return all;
+  return texts.map(text =>
+    budgetOverruns(context, regex) >= MAX_BUDGET_OVERRUNS ? [] : execWithBudget(regex, text, PATTERN_BUDGET_MS, context)
+  );
+}
+
+/**
+ * Whether a regex matches a text, within the pattern budget. Returns null when
+ * the budget runs out, and false once the regex has been given up on.
+ */
+export function matchesWithBudget(regex: RegExp, text: string, context: ScanContext): boolean | null {
+  const [matches] = execAllWithBudget(regex, [text], context);
+  return matches === null ? null : matches.length > 0;
+}
+
+/**
+ * Report a rule's regex, or an allowlist entry (`ruleId` null), that ran out of its budget
+ */
+export function reportBudgetOverrun(
+  context: ScanContext,
+  regex: RegExp,
+  ruleId: string | null,
+  file: string,
+  line?: number
+): void {
+  const subject = ruleId === null ? `Allowlist regex ${regex}` : `Rule "${ruleId}"`;
+  const location = line === undefined ? file : `${file}:${line}`;
+  const givenUp = budgetOverruns(context, regex) >= MAX_BUDGET_OVERRUNS;
+  context.diagnostics.push({
+    file,
+    line,
+    ruleId: ruleId ?? 'allowlist',
+    message: `${subject} ran over its ${PATTERN_BUDGET_MS} ms budget on ${location} and was skipped there` +
+      (givenUp ? `; it is disabled for the rest of the scan after ${MAX_BUDGET_OVERRUNS} overruns` : ''),
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * SARIF 2.1.0 serializer, for GitHub code scanning and other SARIF consumers.
+ *
+ * Only masked snippets are written; raw secret values never leave the scanner.
+ */
+
+import { Finding, MANIFEST_RULES, Severity } from './patterns';
+import { fingerprintFinding } from './baseline';
+
+/** Rule metadata shared by secret patterns, file patterns and structural rules */
+export interface RuleMetadata {
+  id: string;
+  name: string;
+  severity: Severity;
+  group: string;
+  remediation: string;
+}
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+export const SARIF_VERSION = '2.1.0';
+
+const TOOL_NAME = 'KeySentinel';
+const TOOL_URI = 'https://github.com/Vishrut19/KeySentinel';
+
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+// GitHub code scanning ranks security alerts by this score (0.0 - 10.0)
+const SECURITY_SEVERITY: Record<Severity, string> = {
+  high: '8.0',
+  medium: '5.0',
+  low: '2.0',
+};
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  help: { text: string; markdown: string };
+  defaultConfiguration: { level: 'error' | 'warning' | 'note' };
+  properties: { tags: string[]; 'security-severity': string };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: 'error' | 'warning' | 'note';
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region: { startLine: number; endLine?: number; snippet?: { text: string } };
+    };
+  }[];
+  partialFingerprints: Record<string, string>;
+  suppressions?: { kind: 'inSource'; justification?: string }[];
+  properties: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: {
+    tool: { driver: { name: string; informationUri: string; rules: SarifRule[] } };
+    results: SarifResult[];
+  }[];
+}
+
+/**
+ * Describe a rule from its metadata, or from a finding when the rule has none (e.g. entropy)
+ */
+function toSarifRule(ruleId: string, metadata: RuleMetadata | undefined, finding: Finding): SarifRule {
+  const name = metadata?.name ?? finding.type;
+  const severity = metadata?.severity ?? finding.severity;
+  const remediation = metadata?.remediation ?? finding.remediation;
+  const tags = ['security', 'secret'];
+  if (metadata?.group) tags.push(metadata.group);
+
+  return {
+    id: ruleId,
+    name: name.replace(/[^A-Za-z0-9]+/g, ''),
+    shortDescription: { text: name },
+    fullDescription: { text: `${name} detected by KeySentinel rule "${ruleId}".` },
+    help: { text: remediation, markdown: remediation },
+    defaultConfiguration: { level: SARIF_LEVELS[severity] },
+    properties: { tags, 'security-severity': SECURITY_SEVERITY[severity] },
+  };
+}
+
+function toSarifMessage(finding: Finding): string {
+  let text = `${finding.type} found`;
+  if (finding.keyPath) text += ` at key "${finding.keyPath}"`;
+  if (finding.encoding) text += ` (decoded from ${finding.encoding.join(' -> ')})`;
+  if (finding.verified === 'active') text += '. The credential is active';
+  return `${text}. ${finding.remediation}`;
+}
+
+/**
+ * Serialize findings as a SARIF 2.1.0 log. `rules` supplies rule metadata by ID;
+ * the infrastructure manifest rules are always known.
+ */
+export function generateSarif(findings: Finding[], rules: RuleMetadata[] = []): SarifLog {
+  const metadata = new Map<string, RuleMetadata>();
+  for (const rule of [...Object.values(MANIFEST_RULES), ...rules]) {
+    metadata.set(rule.id, rule);
+  }
+
+  const sarifRules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+  const results: SarifResult[] = [];
+
+  for (const finding of findings) {
+    let index = ruleIndex.get(finding.ruleId);
+    if (index === undefined) {
+      index = sarifRules.length;
+      ruleIndex.set(finding.ruleId, index);
+      sarifRules.push(toSarifRule(finding.ruleId, metadata.get(finding.ruleId), finding));
+    }
+
+    const region: SarifResult['locations'][number]['physicalLocation']['region'] =
+      // Findings on a file as a whole point at its first line
+      finding.line === null
+        ? { startLine: 1 }
+        : { startLine: finding.line, snippet: { text: finding.snippet } };
+    if (finding.line !== null && finding.endLine !== undefined && finding.endLine !== finding.line) {
+      region.endLine = finding.endLine;
+    }
+
+    const result: SarifResult = {
+      ruleId: finding.ruleId,
+      ruleIndex: index,
+      level: SARIF_LEVELS[finding.severity],
+      message: { text: toSarifMessage(finding) },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: finding.file.replace(/\\/g, '/'), uriBaseId: '%SRCROOT%' },
+            region,
+          },
+        },
+      ],
+      // Same fingerprint as the baseline file, so alerts track a secret as lines move
+      partialFingerprints: { 'keysentinel/v1': fingerprintFinding(finding) },
+      properties: {
+        severity: finding.severity,
+        confidence: finding.confidence,
+        ...(finding.keyPath ? { keyPath: finding.keyPath } : {}),
+        ...(finding.encoding ? { encoding: finding.encoding } : {}),
+        ...(finding.verified ? { verified: finding.verified } : {}),
+        ...(finding.commit ? { commit: finding.commit, presentAtHead: finding.presentAtHead } : {}),
+      },
+    };
+    if (finding.suppressed) {
+      result.suppressions = [
+        finding.suppressed.reason
+          ? { kind: 'inSource', justification: finding.suppressed.reason }
+          : { kind: 'inSource' },
+      ];
+    }
+    results.push(result);
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: { driver: { name: TOOL_NAME, informationUri: TOOL_URI, rules: sarifRules } },
+        results,
+      },
+    ],
+  };
+}
@@ -6,23 +6,42 @@ import {
   Finding,
   Severity,
   SecretPattern,
+  ENTROPY_RULE_ID,
+  CONFIG_SECRET_RULE_ID,
+  calculateEntropy,
+  MIN_ENTROPY_TOKEN_LENGTH,
   detectHighEntropyStrings,
   isLikelyNonSecret,
 } from './patterns';
-import { maskLine } from './mask';
-import { isAllowlisted, Config } from './config';
+import { maskLine, maskBlock } from './mask';
+import { findAllowlisted, isAllowlisted, Config } from './config';
+import { findPrivateKeyBlocks } from './keyblocks';
+import { decodeSegments, DecodedSegment } from './decode';
+import { AddedLine, parseStructured, isReferenceValue, isSecretKeyName, isSecretValue } from './structured';
+import { scanManifest } from './manifests';
+import { applySuppressions } from './suppress';
+import { BaselineEntry, fingerprintFinding } from './baseline';
+import { Prefiltered, getKeywordIndex, prefilter } from './prefilter';
+import { ScanContext, createScanContext, execAll, execAllWithBudget, reportBudgetOverrun } from './redos';
 
 /**
- * Extract added lines from a unified diff patch
- * Returns array of { line: text, lineNumber: number }
+ * Split a unified diff patch into added and context (unchanged) lines, with their new line numbers.
+ * Also maps each added line number to its diff position: the line's offset from the
+ * first hunk header, which is how the review comments API anchors comments.
  */
-export function extractAddedLines(patch: string): { line: string; lineNumber: number }[] {
-  const added: { line: string; lineNumber: number }[] = [];
+function parsePatch(patch: string): { added: AddedLine[]; context: AddedLine[]; positions: Map<number, number> } {
+  const added: AddedLine[] = [];
+  const context: AddedLine[] = [];
+  const positions = new Map<number, number>();
   const lines = patch.split('\n');
 
   let currentLineNumber = 0;
+  // Stays 0 until the first hunk header; later hunk headers count as positions
+  let position = 0;
 
   for (const line of lines) {
+    if (position > 0 || line.startsWith('@@')) position++;
+
     // Parse hunk header: @@ -old,len +new,len @@
     const hunkMatch = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
     if (hunkMatch) {
@@ -42,39 +61,148 @@ export function extractAddedLines(patch: string): { line: string; lineNumber: nu
         line: line.slice(1), // Remove the leading +
         lineNumber: currentLineNumber,
       });
+      positions.set(currentLineNumber, position - 1);
     } else if (line.startsWith('-')) {
       // Deleted lines don't change the line number
       continue;
     } else if (line.startsWith(' ') || line === '') {
       // Context lines
       currentLineNumber++;
+      context.push({ line: line.slice(1), lineNumber: currentLineNumber });
     }
   }
 
-  return added;
+  return { added, context, positions };
+}
+
+export interface FilePatch {
+  file: string;
+  /** Whether the diff adds the file */
+  isNew: boolean;
+  patch: string;
 }
 
 /**
- * Scan text for secrets using regex patterns
+ * Split a multi-file diff (`git diff`, `git show`) into per-file patches.
+ * Deleted files are left out.
+ */
+export function splitDiff(diff: string): FilePatch[] {
+  const files: FilePatch[] = [];
+  let current: (FilePatch & { deleted: boolean; lines: string[] }) | null = null;
+
+  const flush = (): void => {
+    if (current && !current.deleted) {
+      files.push({ file: current.file, isNew: current.isNew, patch: current.lines.join('\n') });
+    }
+  };
+
+  for (const line of diff.split('\n')) {
+    const header = line.match(/^diff --git a\/.+ b\/(.+)$/);
+    if (header) {
+      flush();
+      current = { file: header[1], isNew: false, patch: '', deleted: false, lines: [] };
+      continue;
+    }
+    if (!current) continue;
+
+    // Extended header lines come before the first hunk
+    if (current.lines.length === 0) {
+      if (line.startsWith('new file mode')) current.isNew = true;
+      if (line.startsWith('deleted file mode')) current.deleted = true;
+      if (line.startsWith('+++ b/')) current.file = line.slice('+++ b/'.length);
+      if (!line.startsWith('@@')) continue;
+    }
+    current.lines.push(line);
+  }
+  flush();
+
+  return files;
+}
+
+/**
+ * Extract added lines from a unified diff patch
+ * Returns array of { line: text, lineNumber: number }
+ */
+export function extractAddedLines(patch: string): AddedLine[] {
+  return parsePatch(patch).added;
+}
+
+/**
+ * Extract the unchanged context lines around the hunks of a unified diff patch.
+ * They are not scanned, but can hold inline suppression markers (see suppress.ts).
+ */
+export function extractContextLines(patch: string): AddedLine[] {
+  return parsePatch(patch).context;
+}
+
+/**
+ * Map each added line number of a unified diff patch to its diff position
+ */
+export function extractDiffPositions(patch: string): Map<number, number> {
+  return parsePatch(patch).positions;
+}
+
+export interface PatternMatch {
+  pattern: SecretPattern;
+  match: string;
+  index: number;
+  /** Result of the pattern's offline validator, if it has one (see validators.ts) */
+  valid?: boolean | null;
+}
+
+/**
+ * Time budget of the user-supplied regexes in a scan (see redos.ts)
+ */
+export interface PatternBudget {
+  context: ScanContext;
+  /** Results of budgeted patterns already run over the text, e.g. along with the rest of its file */
+  results?: Map<SecretPattern, RegExpExecArray[] | null>;
+  /** Called for a custom pattern, or an allowlist entry (no pattern), that ran out of time */
+  onExceeded?: (regex: RegExp, pattern?: SecretPattern) => void;
+}
+
+/**
+ * Scan text for secrets using regex patterns. Only the patterns whose keywords
+ * occur in the text run (see prefilter.ts); pass `filtered` when it is already known.
  */
 export function scanWithPatterns(
   text: string,
   patterns: SecretPattern[],
-  allowlist: RegExp[]
-): { pattern: SecretPattern; match: string; index: number }[] {
-  const matches: { pattern: SecretPattern; match: string; index: number }[] = [];
+  allowlist: RegExp[],
+  filtered: Prefiltered = prefilter(getKeywordIndex(patterns), text),
+  budget: PatternBudget = { context: createScanContext() }
+): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+
+  for (const pattern of filtered.candidates) {
+    // Block patterns are matched across lines by findPrivateKeyBlocks
+    if (pattern.multiline) continue;
+
+    let found: RegExpExecArray[] | null | undefined;
+    if (pattern.budgeted) {
+      found = budget.results?.get(pattern);
+      if (found === undefined) [found] = execAllWithBudget(pattern.pattern, [text], budget.context);
+      if (found === null) {
+        budget.onExceeded?.(pattern.pattern, pattern);
+        continue;
+      }
+    } else {
+      found = execAll(pattern.pattern, text);
+    }
 
-  for (const pattern of patterns) {
-    // Reset regex state
-    pattern.pattern.lastIndex = 0;
+    for (const match of found) {
+      // Get the configured capture group, else the first group or the full match
+      const value = pattern.captureGroup !== undefined
+        ? match[pattern.captureGroup]
+        : match[1] || match[0];
 
-    let match;
-    while ((match = pattern.pattern.exec(text)) !== null) {
-      // Get the captured group or the full match
-      const value = match[1] || match[0];
+      // Zero-length or non-participating group: nothing to report
+      if (!value) {
+        continue;
+      }
 
       // Skip if allowlisted
-      if (isAllowlisted(value, allowlist)) {
+      if (isAllowlisted(value, allowlist, budget.context, regex => budget.onExceeded?.(regex))) {
         continue;
       }
 
@@ -87,6 +215,7 @@ export function scanWithPatterns(
         pattern,
         match: value,
         index: match.index,
+        valid: pattern.validate ? pattern.validate(value) : undefined,
       });
     }
   }
@@ -94,49 +223,138 @@ export function scanWithPatterns(
   return matches;
 }
 
+function demoteSeverity(severity: Severity): Severity {
+  return severity === 'high' ? 'medium' : 'low';
+}
+
 /**
- * Scan a single file's added lines for secrets
+ * Scan a single file's added lines for secrets.
+ * Findings silenced by an inline marker on an added or context line are kept, with `suppressed` set.
  */
 export function scanLines(
   filename: string,
-  addedLines: { line: string; lineNumber: number }[],
+  addedLines: AddedLine[],
   config: Config,
-  patterns: SecretPattern[]
+  patterns: SecretPattern[],
+  contextLines: AddedLine[] = [],
+  context: ScanContext = createScanContext()
 ): Finding[] {
   const findings: Finding[] = [];
   const seenSecrets = new Set<string>();
+  const entropyRule = config.rules[ENTROPY_RULE_ID];
+  const entropyEnabled = config.entropy.enabled && entropyRule?.enabled !== false;
+
+  // Private key blocks span several lines; their body lines are not scanned again below
+  const blockLines = new Set<number>();
+  for (const block of findPrivateKeyBlocks(addedLines, patterns)) {
+    const onAllowlistOverrun = (regex: RegExp): void =>
+      reportBudgetOverrun(context, regex, null, filename, block.startLine);
+    if (isAllowlisted(block.text, config.allowlist, context, onAllowlistOverrun)) continue;
+
+    for (let n = block.startLine; n <= block.endLine; n++) {
+      blockLines.add(n);
+    }
 
-  for (const { line, lineNumber } of addedLines) {
-    // Pattern-based detection
-    const patternMatches = scanWithPatterns(line, patterns, config.allowlist);
-
-    for (const { pattern, match } of patternMatches) {
-      const key = `${filename}:${lineNumber}:${match}`;
-      if (seenSecrets.has(key)) continue;
-      seenSecrets.add(key);
-
-      findings.push({
-        file: filename,
-        line: lineNumber,
-        type: pattern.name,
-        severity: pattern.severity,
-        confidence: 'high',
-        snippet: maskLine(line, match),
-        rawValue: match,
-        remediation: pattern.remediation,
-      });
+    findings.push({
+      file: filename,
+      line: block.startLine,
+      endLine: block.endLine,
+      ruleId: block.pattern.id,
+      type: block.name,
+      severity: block.pattern.severity,
+      // A block without its END marker in the diff may be truncated or a fragment
+      confidence: block.pattern.confidence ?? (block.footer ? 'high' : 'medium'),
+      snippet: maskBlock(block.header, block.footer, block.bodyLines),
+      rawValue: block.text,
+      remediation: block.pattern.remediation,
+    });
+  }
+
+  const keywordIndex = getKeywordIndex(patterns);
+  const lines = addedLines.filter(l => !blockLines.has(l.lineNumber));
+  // One pass over each line picks the candidate patterns and tells whether it has an entropy-sized token
+  const filtered = lines.map(({ line }) => prefilter(keywordIndex, line));
+
+  // Custom patterns run over all the lines they are candidates for in one budgeted call, rather than one per line
+  const budgetedResults: Map<SecretPattern, RegExpExecArray[] | null>[] = [];
+  for (const pattern of patterns) {
+    if (!pattern.budgeted || pattern.multiline) continue;
+    const indices = filtered.flatMap((f, i) => (f.candidates.includes(pattern) ? [i] : []));
+    execAllWithBudget(pattern.pattern, indices.map(i => lines[i].line), context).forEach((result, j) => {
+      (budgetedResults[indices[j]] ??= new Map()).set(pattern, result);
+    });
+  }
+
+  // Allowlist entries are likewise run once, over all the line findings, at the end
+  const lineFindings: Finding[] = [];
+  let currentLine = 0;
+  // Reports a custom pattern that ran out of time on the current line
+  const onExceeded = (regex: RegExp, pattern?: SecretPattern): void =>
+    reportBudgetOverrun(context, regex, pattern?.id ?? null, filename, currentLine);
+
+  for (const [i, { line, lineNumber }] of lines.entries()) {
+    currentLine = lineNumber;
+
+    // Pattern-based detection, on the raw line and on any encoded payloads within it
+    const views: { text: string; segment?: DecodedSegment }[] = [{ text: line }];
+    const reportedEncodings: string[] = [];
+    if (config.decode.enabled) {
+      for (const segment of decodeSegments(line, config.decode.maxDepth)) {
+        views.push({ text: segment.text, segment });
+      }
+    }
+
+    for (const { text, segment } of views) {
+      const patternMatches = segment
+        ? scanWithPatterns(text, patterns, [], undefined, { context, onExceeded })
+        : scanWithPatterns(text, patterns, [], filtered[i], { context, results: budgetedResults[i], onExceeded });
+
+      for (const { pattern, match, valid } of patternMatches) {
+        const key = `${filename}:${lineNumber}:${match}`;
+        if (seenSecrets.has(key)) continue;
+        // Also keeps a value rejected by its validator from resurfacing as an entropy finding
+        seenSecrets.add(key);
+
+        // Levels set under `rules:` are kept as configured, whatever the validator says
+        const rule = config.rules[pattern.id];
+        let severity = pattern.severity;
+        let confidence = pattern.confidence ?? 'high';
+        if (valid === true) {
+          if (!rule?.confidence) confidence = 'high';
+        } else if (valid === false) {
+          if ((pattern.onInvalid ?? 'drop') === 'drop') continue;
+          if (!rule?.severity) severity = demoteSeverity(severity);
+          if (!rule?.confidence) confidence = 'low';
+        }
+
+        if (segment) {
+          // The encoded form is what's in the file: mask it, and don't report it again as entropy
+          reportedEncodings.push(segment.encoded);
+        }
+
+        lineFindings.push({
+          file: filename,
+          line: lineNumber,
+          ruleId: pattern.id,
+          type: pattern.name,
+          severity,
+          confidence,
+          snippet: maskLine(line, segment ? segment.encoded : match),
+          rawValue: match,
+          remediation: pattern.remediation,
+          encoding: segment?.chain,
+        });
+      }
     }
 
     // Entropy-based detection
-    if (config.entropy.enabled) {
+    if (entropyEnabled && filtered[i].longestToken >= MIN_ENTROPY_TOKEN_LENGTH) {
       const entropyMatches = detectHighEntropyStrings(line, config.entropy);
 
       for (const { value, entropy } of entropyMatches) {
         const key = `${filename}:${lineNumber}:${value}`;
         if (seenSecrets.has(key)) continue;
-
-        if (isAllowlisted(value, config.allowlist)) continue;
-
+        if (reportedEncodings.some(encoded => encoded.includes(value))) continue;
         seenSecrets.add(key);
 
         let severity: Severity = 'low';
@@ -146,12 +364,13 @@ export function scanLines(
           severity = 'medium';
         }
 
-        findings.push({
+        lineFindings.push({
           file: filename,
           line: lineNumber,
+          ruleId: ENTROPY_RULE_ID,
           type: 'High Entropy String',
-          severity,
-          confidence: entropy >= 5.0 ? 'high' : 'medium',
+          severity: entropyRule?.severity ?? severity,
+          confidence: entropyRule?.confidence ?? (entropy >= 5.0 ? 'high' : 'medium'),
           snippet: maskLine(line, value),
           rawValue: value,
           remediation: 'This looks like a randomly generated secret or token. Remove it from source code and use environment variables or a secrets manager instead. If this was already pushed, rotate the credential.',
@@ -160,14 +379,238 @@ export function scanLines(
     }
   }
 
-  return findings;
+  const allowlisted = findAllowlisted(
+    lineFindings.map(f => f.rawValue),
+    config.allowlist,
+    context,
+    (regex, i) => reportBudgetOverrun(context, regex, null, filename, lineFindings[i].line ?? undefined)
+  );
+  findings.push(...lineFindings.filter((_, i) => !allowlisted[i]));
+
+  return applySuppressions(findings, [...addedLines, ...contextLines]);
 }
 
+// Key/value regex rules superseded by structure-aware scanning of config files
+const KEY_VALUE_RULE_IDS = new Set(['generic-api-key', 'generic-secret', 'generic-password']);
+
 /**
- * Generate markdown report from findings
+ * Scan a file's added lines, using infrastructure manifest detectors (Kubernetes
+ * Secrets, Helm values, Terraform, docker-compose) and structure-aware scanning
+ * for config files (.env, JSON, YAML, properties, INI) on top of plain line scanning.
+ * Config content that does not parse (e.g. a partial document) falls back to line scanning.
  */
-export function generateReport(findings: Finding[], filesScanned: number): string {
+export function scanFile(
+  filename: string,
+  addedLines: AddedLine[],
+  config: Config,
+  patterns: SecretPattern[],
+  contextLines: AddedLine[] = [],
+  context: ScanContext = createScanContext()
+): Finding[] {
+  const lineFindings = scanLines(filename, addedLines, config, patterns, contextLines, context);
+  const manifestFindings = scanManifest(filename, addedLines, config, context);
+  const entries = parseStructured(filename, addedLines);
+  if (!entries && !manifestFindings) return lineFindings;
+
+  const rule = config.rules[CONFIG_SECRET_RULE_ID];
+  const findings: Finding[] = [];
+  const entriesByLine = new Map((entries ?? []).map(e => [e.lineNumber, e]));
+
+  // Generic key/value findings, kept unless a manifest or config key finding replaces them on their line (see below)
+  const keyValueFindings: Finding[] = [];
+  for (const finding of lineFindings) {
+    const entry = finding.line !== null ? entriesByLine.get(finding.line) : undefined;
+    const located = entry ? { ...finding, keyPath: entry.keyPath } : finding;
+    if (KEY_VALUE_RULE_IDS.has(finding.ruleId)) keyValueFindings.push(located);
+    else findings.push(located);
+  }
+
+  // Specific patterns win over manifest detectors, which win over generic config keys
+  const alreadyReported = (lineNumber: number | null, value: string): boolean =>
+    findings.some(f => f.line === lineNumber && (value.includes(f.rawValue) || f.rawValue.includes(value)));
+
+  const manifestLines = new Set<number | null>();
+  for (const finding of manifestFindings ?? []) {
+    if (alreadyReported(finding.line, finding.rawValue)) continue;
+    findings.push(finding);
+    manifestLines.add(finding.line);
+  }
+
+  const lineText = new Map(addedLines.map(l => [l.lineNumber, l.line]));
+  const configLines = new Set<number | null>();
+  for (const entry of rule?.enabled === false ? [] : entries ?? []) {
+    if (!isSecretKeyName(entry.key) || !isSecretValue(entry.value)) continue;
+    const onAllowlistOverrun = (regex: RegExp): void =>
+      reportBudgetOverrun(context, regex, null, filename, entry.lineNumber);
+    if (isAllowlisted(entry.value, config.allowlist, context, onAllowlistOverrun)) continue;
+    if (manifestLines.has(entry.lineNumber) || alreadyReported(entry.lineNumber, entry.value)) continue;
+
+    configLines.add(entry.lineNumber);
+    findings.push({
+      file: filename,
+      line: entry.lineNumber,
+      ruleId: CONFIG_SECRET_RULE_ID,
+      type: 'Secret in Config Key',
+      severity: rule?.severity ?? 'medium',
+      confidence: rule?.confidence ?? (calculateEntropy(entry.value) >= 3.5 ? 'high' : 'medium'),
+      snippet: maskLine(lineText.get(entry.lineNumber) ?? entry.value, entry.value),
+      rawValue: entry.value,
+      remediation: `The key "${entry.keyPath}" holds a literal credential. Move the value to environment variables or a secrets manager and reference it instead. Rotate it if it was already pushed.`,
+      keyPath: entry.keyPath,
+    });
+  }
+
+  // A reference such as `${DB_PASSWORD}` is not a leak, whichever rule matched it
+  findings.push(
+    ...keyValueFindings.filter(
+      f =>
+        !manifestLines.has(f.line) &&
+        !configLines.has(f.line) &&
+        !alreadyReported(f.line, f.rawValue) &&
+        !isReferenceValue(f.rawValue)
+    )
+  );
+  return sortByLine(applySuppressions(findings, [...addedLines, ...contextLines]));
+}
+
+function sortByLine(findings: Finding[]): Finding[] {
+  return findings.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+}
+
+/**
+ * Sort findings by file, then line, so output doesn't depend on scan order.
+ * The sort is stable: findings on the same line keep their order.
+ */
+export function sortFindings(findings: Finding[]): Finding[] {
+  return findings.sort((a, b) => (a.file < b.file ? -1 : a.file > b.file ? 1 : (a.line ?? 0) - (b.line ?? 0)));
+}
+
+/**
+ * Format a finding's line, or line range for multi-line findings
+ */
+export function formatLineRange(finding: Finding): string {
+  if (finding.line === null) return 'N/A';
+  if (finding.endLine !== undefined && finding.endLine !== finding.line) {
+    return `${finding.line}-${finding.endLine}`;
+  }
+  return `${finding.line}`;
+}
+
+function formatVerified(finding: Finding): string {
+  switch (finding.verified) {
+    case 'active':
+      return ':rotating_light: active';
+    case 'revoked':
+      return 'revoked';
+    case 'unknown':
+      return 'unknown';
+    default:
+      return '—';
+  }
+}
+
+/**
+ * List findings silenced by inline markers, so reviewers can see what was waved through
+ */
+function reportSuppressed(suppressed: Finding[], lines: string[]): void {
+  if (suppressed.length === 0) return;
+
+  lines.push('### :mute: Suppressed Findings');
+  lines.push('');
+  lines.push('_Silenced by inline `keysentinel:allow` markers. These do not fail the check._');
+  lines.push('');
+  lines.push('| # | File | Line | Rule | Marker | Reason |');
+  lines.push('|---:|:---|---:|:---|---:|:---|');
+  suppressed.forEach((finding, i) => {
+    const { markerLine, reason } = finding.suppressed!;
+    const reasonCell = reason ? reason.replace(/\|/g, '\\|') : '_none given_';
+    lines.push(
+      `| ${i + 1} | \`${finding.file}\` | ${formatLineRange(finding)} | \`${finding.ruleId}\` | ${markerLine} | ${reasonCell} |`
+    );
+  });
+}
+
+/** Baseline outcome shown in the report (see baseline.ts) */
+export interface BaselineSummary {
+  /** Number of findings accepted by the baseline, and left out of the report */
+  baselined: number;
+  stale: BaselineEntry[];
+}
+
+/**
+ * List baseline entries that no longer match anything, so the baseline can be pruned
+ */
+function reportStaleBaseline(stale: BaselineEntry[], lines: string[]): void {
+  if (stale.length === 0) return;
+
+  lines.push('### :wastebasket: Stale Baseline Entries');
+  lines.push('');
+  lines.push('_These baseline entries no longer match any finding. Run `keysentinel baseline` to refresh the baseline._');
+  lines.push('');
+  lines.push('| File | Rule | Fingerprint |');
+  lines.push('|:---|:---|:---|');
+  for (const entry of stale) {
+    lines.push(`| \`${entry.file}\` | \`${entry.ruleId}\` | \`${entry.fingerprint.slice(0, 12)}\` |`);
+  }
+  lines.push('');
+}
+
+/** The data behind a report, shared by the PR comment and the job summary */
+export interface ReportData {
+  /** Findings that are reported (not suppressed) */
+  findings: Finding[];
+  /** Findings silenced by inline markers */
+  suppressed: Finding[];
+  counts: Record<Severity, number>;
+  /** Rules that fired, with their finding counts, most frequent first */
+  rules: { ruleId: string; type: string; count: number }[];
+  filesScanned: number;
+  baseline: BaselineSummary;
+}
+
+/**
+ * Split findings and tally them by severity and rule
+ */
+export function buildReportData(
+  allFindings: Finding[],
+  filesScanned: number,
+  baseline: BaselineSummary = { baselined: 0, stale: [] }
+): ReportData {
+  const findings = allFindings.filter(f => !f.suppressed);
+  const counts: Record<Severity, number> = { high: 0, medium: 0, low: 0 };
+  const rules = new Map<string, { ruleId: string; type: string; count: number }>();
+
+  for (const finding of findings) {
+    counts[finding.severity]++;
+    const rule = rules.get(finding.ruleId) ?? { ruleId: finding.ruleId, type: finding.type, count: 0 };
+    rule.count++;
+    rules.set(finding.ruleId, rule);
+  }
+
+  return {
+    findings,
+    suppressed: allFindings.filter(f => f.suppressed),
+    counts,
+    rules: [...rules.values()].sort((a, b) => b.count - a.count),
+    filesScanned,
+    baseline,
+  };
+}
+
+/**
+ * Generate markdown report from findings.
+ * Suppressed findings are counted and listed separately from the active ones;
+ * findings accepted by the baseline are only counted.
+ */
+export function generateReport(
+  allFindings: Finding[],
+  filesScanned: number,
+  baselineSummary: BaselineSummary = { baselined: 0, stale: [] }
+): string {
   const lines: string[] = [];
+  const { findings, suppressed, counts, baseline } = buildReportData(allFindings, filesScanned, baselineSummary);
+  const suppressedNote = suppressed.length > 0 ? ` ${suppressed.length} finding(s) suppressed inline.` : '';
+  const baselineNote = baseline.baselined > 0 ? ` ${baseline.baselined} finding(s) accepted by the baseline.` : '';
 
   if (findings.length === 0) {
     lines.push('<!-- keysentinel:comment -->');
@@ -176,23 +619,31 @@ export function generateReport(findings: Finding[], filesScanned: number): strin
     lines.push('');
     lines.push('**Status:** ✅ No secrets detected');
     lines.push('');
-    lines.push(`_Scanned ${filesScanned} file(s)._`);
-    return lines.join('\n');
+    lines.push(`_Scanned ${filesScanned} file(s).${suppressedNote}${baselineNote}_`);
+    if (suppressed.length > 0) {
+      lines.push('');
+      reportSuppressed(suppressed, lines);
+    }
+    if (baseline.stale.length > 0) {
+      lines.push('');
+      reportStaleBaseline(baseline.stale, lines);
+    }
+    return lines.join('\n').trimEnd();
   }
 
-  const highCount = findings.filter(f => f.severity === 'high').length;
-  const mediumCount = findings.filter(f => f.severity === 'medium').length;
-  const lowCount = findings.filter(f => f.severity === 'low').length;
+  const { high: highCount, medium: mediumCount, low: lowCount } = counts;
 
   // Status indicator
   const statusIcon = highCount > 0 ? ':x:' : ':warning:';
-  const statusText = highCount > 0 ? 'Potential secrets detected' : 'Potential secrets detected';
+  const statusText = highCount > 0 ? 'Potential secrets detected' : 'Possible secrets detected, none of high severity';
 
   // Build summary line
   const parts: string[] = [];
   if (highCount > 0) parts.push(`:red_circle: High: ${highCount}`);
   if (mediumCount > 0) parts.push(`:orange_circle: Medium: ${mediumCount}`);
   if (lowCount > 0) parts.push(`:yellow_circle: Low: ${lowCount}`);
+  const suppressedPart = suppressed.length > 0 ? ` • :mute: **${suppressed.length}** suppressed` : '';
+  const baselinePart = baseline.baselined > 0 ? ` • :card_file_box: **${baseline.baselined}** in baseline` : '';
 
   lines.push('<!-- keysentinel:comment -->');
   lines.push('');
@@ -200,12 +651,19 @@ export function generateReport(findings: Finding[], filesScanned: number): strin
   lines.push('');
   lines.push(`**Status:** ${statusIcon} ${statusText}`);
   lines.push('');
-  lines.push(`**Summary:** **${findings.length} finding${findings.length !== 1 ? 's' : ''}** (${parts.join(' • ')}) • Scanned **${filesScanned}** file(s)`);
+  lines.push(`**Summary:** **${findings.length} finding${findings.length !== 1 ? 's' : ''}** (${parts.join(' • ')}) • Scanned **${filesScanned}** file(s)${suppressedPart}${baselinePart}`);
   lines.push('');
   lines.push('### Findings');
   lines.push('');
-  lines.push('| # | Severity | File | Line | Rule | Confidence | Preview |');
-  lines.push('|---:|:---|:---|---:|:---|:---|:---|');
+  // Only show the verification column when live verification ran
+  const showVerified = findings.some(f => f.verified !== undefined);
+  if (showVerified) {
+    lines.push('| # | Severity | File | Line | Rule | Confidence | Verified | Preview |');
+    lines.push('|---:|:---|:---|---:|:---|:---|:---|:---|');
+  } else {
+    lines.push('| # | Severity | File | Line | Rule | Confidence | Preview |');
+    lines.push('|---:|:---|:---|---:|:---|:---|:---|');
+  }
 
   for (let i = 0; i < findings.length; i++) {
     const finding = findings[i];
@@ -215,12 +673,13 @@ export function generateReport(findings: Finding[], filesScanned: number): strin
         ? ':orange_circle: Medium' 
         : ':yellow_circle: Low';
 
-    const lineStr = finding.line !== null ? `${finding.line}` : 'N/A';
+    const lineStr = formatLineRange(finding);
     const snippet = finding.snippet.replace(/\|/g, '\\|').replace(/\n/g, ' ');
-    const ruleName = finding.type.toLowerCase().replace(/\s+/g, '_');
+
+    const verifiedCell = showVerified ? ` ${formatVerified(finding)} |` : '';
 
     lines.push(
-      `| ${i + 1} | ${severityLabel} | \`${finding.file}\` | ${lineStr} | \`${ruleName}\` | ${finding.confidence} | \`${snippet}\` |`
+      `| ${i + 1} | ${severityLabel} | \`${finding.file}\` | ${lineStr} | \`${finding.ruleId}\` | ${finding.confidence} |${verifiedCell} \`${snippet}\` |`
     );
   }
 
@@ -233,12 +692,20 @@ export function generateReport(findings: Finding[], filesScanned: number): strin
   for (let i = 0; i < findings.length; i++) {
     const finding = findings[i];
     const severityEmoji = finding.severity === 'high' ? '🔴' : finding.severity === 'medium' ? '🟠' : '🟡';
-    lines.push(`**${i + 1}. ${severityEmoji} ${finding.type}** in \`${finding.file}:${finding.line ?? 'N/A'}\``);
+    const keyNote = finding.keyPath ? ` at key \`${finding.keyPath}\`` : '';
+    const decodedNote = finding.encoding ? ` (decoded from ${finding.encoding.join(' -> ')})` : '';
+    lines.push(`**${i + 1}. ${severityEmoji} ${finding.type}** in \`${finding.file}:${formatLineRange(finding)}\`${keyNote}${decodedNote}`);
     lines.push('');
     lines.push(`> ${finding.remediation}`);
     lines.push('');
   }
 
+  if (suppressed.length > 0) {
+    reportSuppressed(suppressed, lines);
+    lines.push('');
+  }
+  reportStaleBaseline(baseline.stale, lines);
+
   lines.push('---');
   lines.push('');
   lines.push('<details>');
@@ -276,14 +743,110 @@ export function generateReport(findings: Finding[], filesScanned: number): strin
   lines.push("  - 'EXAMPLE_PATTERN_HERE'");
   lines.push('```');
   lines.push('');
+  lines.push('Or mark it in the code with a comment on the same line, or the line above:');
+  lines.push('```js');
+  lines.push('const key = "..."; // keysentinel:allow rule=<rule-id> reason="test fixture"');
+  lines.push('// keysentinel:allow-next-line');
+  lines.push('```');
+  lines.push('');
   lines.push('</details>');
   lines.push('');
 
   return lines.join('\n');
 }
 
+export type AnnotationLevel = 'notice' | 'warning' | 'failure';
+
+/** A Check Run annotation, in the shape of the GitHub Checks API */
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: AnnotationLevel;
+  title: string;
+  message: string;
+  raw_details?: string;
+}
+
+const ANNOTATION_LEVELS: Record<Severity, AnnotationLevel> = {
+  high: 'failure',
+  medium: 'warning',
+  low: 'notice',
+};
+
+/**
+ * Build one Check Run annotation per finding, with the masked snippet and remediation.
+ * Findings on a file as a whole are annotated on its first line.
+ */
+export function buildAnnotations(findings: Finding[]): CheckAnnotation[] {
+  return findings.map(finding => {
+    const startLine = finding.line ?? 1;
+    const details = [`Rule: ${finding.ruleId}`, `Confidence: ${finding.confidence}`];
+    if (finding.keyPath) details.push(`Key: ${finding.keyPath}`);
+    if (finding.encoding) details.push(`Decoded from: ${finding.encoding.join(' -> ')}`);
+    if (finding.verified) details.push(`Verified: ${finding.verified}`);
+
+    return {
+      path: finding.file,
+      start_line: startLine,
+      end_line: finding.endLine ?? startLine,
+      annotation_level: ANNOTATION_LEVELS[finding.severity],
+      title: `${finding.type} (${finding.severity})`,
+      message: `${finding.snippet}\n\nFix: ${finding.remediation}`,
+      raw_details: details.join('\n'),
+    };
+  });
+}
+
+/** An inline review comment anchored to a diff position */
+export interface ReviewComment {
+  /** Identifies the comment across runs: finding fingerprint and line */
+  key: string;
+  path: string;
+  position: number;
+  body: string;
+}
+
+/**
+ * Build one review comment per finding on a line of the diff. `positions` maps
+ * file to (line number -> diff position); findings outside the diff are left out.
+ */
+export function buildReviewComments(
+  findings: Finding[],
+  positions: Map<string, Map<number, number>>
+): ReviewComment[] {
+  const comments: ReviewComment[] = [];
+
+  for (const finding of findings) {
+    if (finding.line === null) continue;
+    const position = positions.get(finding.file)?.get(finding.line);
+    if (position === undefined) continue;
+
+    const severityEmoji = finding.severity === 'high' ? '🔴' : finding.severity === 'medium' ? '🟠' : '🟡';
+    const keyNote = finding.keyPath ? ` at key \`${finding.keyPath}\`` : '';
+    const snippet = finding.snippet.replace(/\n/g, ' ').replace(/`/g, "'");
+
+    comments.push({
+      key: `${fingerprintFinding(finding).slice(0, 16)}:${finding.line}`,
+      path: finding.file,
+      position,
+      body: [
+        `${severityEmoji} **${finding.type}** (${finding.severity})${keyNote} — rule \`${finding.ruleId}\``,
+        '',
+        `\`${snippet}\``,
+        '',
+        `:hammer_and_wrench: **Fix:** ${finding.remediation}`,
+        '',
+        '_False positive? Add `// keysentinel:allow reason="..."` to the line._',
+      ].join('\n'),
+    });
+  }
+
+  return comments;
+}
+
 /**
- * Check if workflow should fail based on severity threshold
+ * Check if workflow should fail based on severity threshold. Suppressed findings never fail it.
  */
 export function shouldFail(findings: Finding[], failOn: Severity | 'off'): boolean {
   if (failOn === 'off') return false;
@@ -295,5 +858,5 @@ export function shouldFail(findings: Finding[], failOn: Severity | 'off'): boole
   };
 
   const threshold = severityOrder[failOn];
-  return findings.some(f => severityOrder[f.severity] >= threshold);
+  return findings.some(f => !f.suppressed && severityOrder[f.severity] >= threshold);
 }
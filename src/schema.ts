@@ -0,0 +1,279 @@
+/**
+ * Schema of `.keysentinel.yml`.
+ *
+ * The config file is plain YAML, so a misspelt key (`fail-on`, `entropy.treshold`)
+ * would otherwise be ignored without a word and the scan would run with a weaker
+ * policy than intended. Validation reports every problem with its key path, the
+ * expected type and, for unknown keys and values, the closest known one.
+ */
+
+type SchemaNode =
+  | { type: 'string' | 'boolean' | 'number' }
+  | { type: 'integer'; min?: number }
+  | { type: 'enum'; values: string[] }
+  | { type: 'array'; items: SchemaNode }
+  | { type: 'object'; properties: Record<string, SchemaNode>; required?: string[] }
+  /** Object with arbitrary keys (rule ids, pattern groups, ...) */
+  | { type: 'map'; values: SchemaNode }
+  | { type: 'oneOf'; options: SchemaNode[] };
+
+export interface ConfigIssue {
+  /** Key path of the offending value, e.g. `entropy.threshold` or `custom_patterns[1].regex` */
+  path: string;
+  message: string;
+}
+
+const LEVEL: SchemaNode = { type: 'enum', values: ['high', 'medium', 'low'] };
+const STRING_LIST: SchemaNode = { type: 'array', items: { type: 'string' } };
+
+const CONFIG_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    extends: { type: 'oneOf', options: [{ type: 'string' }, STRING_LIST] },
+    fail_on: { type: 'enum', values: ['high', 'medium', 'low', 'off'] },
+    post_no_findings: { type: 'boolean' },
+    ignore: STRING_LIST,
+    allowlist: STRING_LIST,
+    max_files: { type: 'integer', min: 1 },
+    patterns: { type: 'map', values: { type: 'boolean' } },
+    custom_patterns: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          regex: { type: 'string' },
+          severity: LEVEL,
+          group: { type: 'string' },
+          capture_group: { type: 'integer', min: 0 },
+          keywords: STRING_LIST,
+          remediation: { type: 'string' },
+        },
+        required: ['name', 'regex'],
+      },
+    },
+    custom_file_patterns: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          path: { type: 'string' },
+          content: { type: 'string' },
+          severity: LEVEL,
+          group: { type: 'string' },
+          remediation: { type: 'string' },
+        },
+        required: ['name', 'path'],
+      },
+    },
+    rules: {
+      type: 'map',
+      values: {
+        type: 'oneOf',
+        options: [
+          { type: 'boolean' },
+          { type: 'object', properties: { enabled: { type: 'boolean' }, severity: LEVEL, confidence: LEVEL } },
+        ],
+      },
+    },
+    entropy: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        min_length: { type: 'integer', min: 1 },
+        threshold: { type: 'number' },
+        ignore_base64_like: { type: 'boolean' },
+      },
+    },
+    decode: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        max_depth: { type: 'integer', min: 0 },
+      },
+    },
+    verify: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        base_urls: { type: 'map', values: { type: 'string' } },
+        timeout_ms: { type: 'integer', min: 1 },
+      },
+    },
+    baseline: { type: 'string' },
+    concurrency: { type: 'oneOf', options: [{ type: 'integer', min: 0 }, { type: 'enum', values: ['auto'] }] },
+  },
+};
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The candidate closest to `value`, if it is close enough to be a likely typo
+ */
+export function closestMatch(value: string, candidates: string[]): string | undefined {
+  const normalize = (s: string): string => s.toLowerCase().replace(/-/g, '_');
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(normalize(value), normalize(candidate));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  // Allow about one edit per three characters, and always at least one
+  return best !== undefined && bestDistance <= Math.max(1, Math.floor(value.length / 3)) ? best : undefined;
+}
+
+function describeType(node: SchemaNode): string {
+  switch (node.type) {
+    case 'string':
+      return 'a string';
+    case 'boolean':
+      return 'true or false';
+    case 'number':
+      return 'a number';
+    case 'integer':
+      return node.min !== undefined && node.min > 0 ? `an integer of at least ${node.min}` : 'a non-negative integer';
+    case 'enum':
+      return `one of ${node.values.map(v => `"${v}"`).join(', ')}`;
+    case 'array':
+      return 'a list';
+    case 'object':
+    case 'map':
+      return 'a mapping';
+    case 'oneOf':
+      return node.options.map(describeType).join(' or ');
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'a mapping';
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Check a value against its schema node. Returns the value with the invalid
+ * parts left out, or undefined when the value itself is invalid.
+ */
+function validateNode(value: unknown, node: SchemaNode, path: string, issues: ConfigIssue[]): unknown {
+  const mismatch = (): undefined => {
+    issues.push({ path, message: `expected ${describeType(node)}, got ${describeValue(value)}` });
+    return undefined;
+  };
+
+  switch (node.type) {
+    case 'string':
+    case 'boolean':
+    case 'number':
+      return typeof value === node.type ? value : mismatch();
+
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value) && value >= (node.min ?? 0) ? value : mismatch();
+
+    case 'enum': {
+      if (typeof value !== 'string') return mismatch();
+      if (node.values.includes(value.toLowerCase().trim())) return value;
+      const suggestion = closestMatch(value, node.values);
+      issues.push({
+        path,
+        message: `unknown value "${value}", expected ${describeType(node)}` + (suggestion ? `; did you mean "${suggestion}"?` : ''),
+      });
+      return undefined;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) return mismatch();
+      const items = value.map((item, i) => validateNode(item, node.items, `${path}[${i}]`, issues));
+      return items.filter(item => item !== undefined);
+    }
+
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return mismatch();
+      const known = Object.keys(node.properties);
+      const valid: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const childNode = node.properties[key];
+        if (childNode) {
+          const checked = validateNode(child, childNode, joinPath(path, key), issues);
+          if (checked !== undefined) valid[key] = checked;
+          continue;
+        }
+        const suggestion = closestMatch(key, known);
+        issues.push({
+          path: joinPath(path, key),
+          message: 'unknown key' + (suggestion ? `; did you mean "${joinPath(path, suggestion)}"?` : ''),
+        });
+      }
+      // Without a required key the whole object is unusable
+      let complete = true;
+      for (const key of node.required ?? []) {
+        if ((value as Record<string, unknown>)[key] === undefined) {
+          issues.push({ path: joinPath(path, key), message: 'is required' });
+          complete = false;
+        }
+      }
+      return complete ? valid : undefined;
+    }
+
+    case 'map': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return mismatch();
+      const valid: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        const checked = validateNode(child, node.values, joinPath(path, key), issues);
+        if (checked !== undefined) valid[key] = checked;
+      }
+      return valid;
+    }
+
+    case 'oneOf': {
+      // Report against the option of the value's own kind (e.g. the object form of a rule), if any
+      const sameKind = node.options.find(
+        option => option.type === 'object' && typeof value === 'object' && value !== null && !Array.isArray(value)
+      );
+      if (sameKind) return validateNode(value, sameKind, path, issues);
+      const matches = node.options.some(option => validateNode(value, option, path, []) !== undefined);
+      return matches ? value : mismatch();
+    }
+  }
+}
+
+/**
+ * Check a parsed `.keysentinel.yml` against the schema. Returns the problems,
+ * and the config with every invalid value left out, so they fall back to
+ * their defaults instead of being half-applied.
+ */
+export function validateYamlConfig(value: unknown): { config: Record<string, unknown>; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = [];
+  const config = validateNode(value, CONFIG_SCHEMA, '', issues) as Record<string, unknown> | undefined;
+  return { config: config ?? {}, issues };
+}
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
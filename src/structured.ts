@@ -0,0 +1,234 @@
+/**
+ * Structure-aware scanning for config files (.env, JSON, YAML, properties, INI).
+ *
+ * Extracts key/value pairs with a parser and judges secrecy from the key name
+ * plus the shape of the value, instead of relying on line regexes.
+ */
+
+import * as yaml from 'js-yaml';
+import { calculateEntropy, isLikelyNonSecret } from './patterns';
+
+export type StructuredFormat = 'env' | 'json' | 'yaml' | 'properties' | 'ini';
+
+export interface ConfigEntry {
+  /** Dotted path to the value, e.g. `services.api.env.STRIPE_KEY` */
+  keyPath: string;
+  /** Last segment of the path */
+  key: string;
+  value: string;
+  lineNumber: number;
+}
+
+export type AddedLine = { line: string; lineNumber: number };
+
+// Key name segments that mark the value as a credential
+const SECRET_KEY_WORDS = new Set([
+  'pass', 'password', 'passwd', 'pwd', 'passphrase',
+  'secret', 'token', 'key', 'apikey', 'credential', 'credentials', 'auth',
+]);
+
+// A `key` suffix with one of these in front is an identifier, not a credential
+const NON_SECRET_KEY_WORDS = new Set([
+  'public', 'publishable', 'sort', 'cache', 'primary', 'foreign', 'partition',
+  'lookup', 'i18n', 'translation', 'idempotency', 'hot', 'short', 'file', 'path',
+]);
+
+// Values that are references or placeholders rather than literal secrets
+const PLACEHOLDER_VALUE = /^(?:<[^>]*>|\$\{[^}]*\}|\$[A-Za-z_][A-Za-z0-9_]*|\{\{.*\}\}|%\([^)]*\)s|%[A-Z_]+%|\*+|x{3,}|\.{3,}|changeme|change[_-]?me|replace[_-]?me|your[_-].*|example.*|dummy|placeholder|todo|tbd|none|null|undefined|secret|password)$/i;
+
+/**
+ * Detect the config format of a file from its name
+ */
+export function detectStructuredFormat(filename: string): StructuredFormat | null {
+  const base = filename.replace(/\\/g, '/').split('/').pop()!.toLowerCase();
+  if (base === '.env' || base.startsWith('.env.') || base.endsWith('.env')) return 'env';
+  if (base.endsWith('.json')) return 'json';
+  if (base.endsWith('.yml') || base.endsWith('.yaml')) return 'yaml';
+  if (base.endsWith('.properties')) return 'properties';
+  if (base.endsWith('.ini') || base.endsWith('.cfg')) return 'ini';
+  return null;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.length >= 2 && /^(["']).*\1$/.test(trimmed)) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+function parseEnv(lines: AddedLine[]): ConfigEntry[] {
+  const entries: ConfigEntry[] = [];
+  for (const { line, lineNumber } of lines) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*?)\s*$/);
+    if (!match) continue;
+    // Strip trailing comments from unquoted values
+    const raw = /^["']/.test(match[2]) ? match[2] : match[2].replace(/\s+#.*$/, '');
+    entries.push({ keyPath: match[1], key: match[1], value: unquote(raw), lineNumber });
+  }
+  return entries;
+}
+
+function parseProperties(lines: AddedLine[]): ConfigEntry[] {
+  const entries: ConfigEntry[] = [];
+  for (const { line, lineNumber } of lines) {
+    if (/^\s*[#!]/.test(line)) continue;
+    const match = line.match(/^\s*([^=:\s]+)\s*[=:]\s*(.*?)\s*$/);
+    if (!match) continue;
+    const key = match[1].split('.').pop()!;
+    entries.push({ keyPath: match[1], key, value: unquote(match[2]), lineNumber });
+  }
+  return entries;
+}
+
+function parseIni(lines: AddedLine[]): ConfigEntry[] {
+  const entries: ConfigEntry[] = [];
+  let section = '';
+  for (const { line, lineNumber } of lines) {
+    if (/^\s*[;#]/.test(line)) continue;
+    const header = line.match(/^\s*\[([^\]]+)\]\s*$/);
+    if (header) {
+      section = header[1].trim();
+      continue;
+    }
+    const match = line.match(/^\s*([^=:\s][^=:]*?)\s*[=:]\s*(.*?)\s*$/);
+    if (!match) continue;
+    const keyPath = section ? `${section}.${match[1]}` : match[1];
+    entries.push({ keyPath, key: match[1], value: unquote(match[2]), lineNumber });
+  }
+  return entries;
+}
+
+/**
+ * Flatten a parsed document into string leaves with their key paths.
+ * `KEY=value` strings in arrays (e.g. docker-compose `environment:` lists) become `path.KEY`.
+ */
+export function flatten(value: unknown, keyPath: string, key: string, out: Omit<ConfigEntry, 'lineNumber'>[]): void {
+  if (typeof value === 'string') {
+    out.push({ keyPath, key, value });
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    out.push({ keyPath, key, value: String(value) });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, i) => {
+      const assignment = typeof item === 'string' ? item.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/) : null;
+      if (assignment) {
+        out.push({ keyPath: `${keyPath}.${assignment[1]}`, key: assignment[1], value: assignment[2] });
+      } else {
+        flatten(item, `${keyPath}[${i}]`, key, out);
+      }
+    });
+  } else if (value && typeof value === 'object') {
+    for (const [childKey, child] of Object.entries(value)) {
+      flatten(child, keyPath ? `${keyPath}.${childKey}` : childKey, childKey, out);
+    }
+  }
+}
+
+/**
+ * Find the added line holding a value, preferring one that also names its key
+ */
+export function locateValue(lines: AddedLine[], key: string, value: string): number | null {
+  const withValue = lines.filter(l => l.line.includes(value));
+  const located = withValue.find(l => l.line.includes(key)) ?? withValue[0];
+  return located ? located.lineNumber : null;
+}
+
+/**
+ * Map parsed entries back to the added line that holds each value
+ */
+function locateEntries(
+  leaves: Omit<ConfigEntry, 'lineNumber'>[],
+  lines: AddedLine[]
+): ConfigEntry[] {
+  const entries: ConfigEntry[] = [];
+  for (const leaf of leaves) {
+    if (!leaf.value) continue;
+    const lineNumber = locateValue(lines, leaf.key, leaf.value);
+    if (lineNumber !== null) {
+      entries.push({ ...leaf, lineNumber });
+    }
+  }
+  return entries;
+}
+
+export function isContiguous(lines: AddedLine[]): boolean {
+  return lines.every((l, i) => i === 0 || l.lineNumber === lines[i - 1].lineNumber + 1);
+}
+
+/**
+ * Parse added lines of a config file into key/value entries.
+ * Returns null when the format is unknown or the content does not parse
+ * (e.g. a fragment of a JSON or YAML document), so callers can fall back to line scanning.
+ */
+export function parseStructured(filename: string, addedLines: AddedLine[]): ConfigEntry[] | null {
+  const format = detectStructuredFormat(filename);
+  if (!format || addedLines.length === 0) return null;
+
+  switch (format) {
+    case 'env':
+      return parseEnv(addedLines);
+    case 'properties':
+      return parseProperties(addedLines);
+    case 'ini':
+      return parseIni(addedLines);
+    case 'json':
+    case 'yaml': {
+      // Nested documents only parse meaningfully as one contiguous block
+      if (!isContiguous(addedLines)) return null;
+      const text = addedLines.map(l => l.line).join('\n');
+      let documents: unknown[];
+      try {
+        documents = format === 'json' ? [JSON.parse(text)] : yaml.loadAll(text);
+      } catch {
+        return null;
+      }
+      documents = documents.filter(doc => doc && typeof doc === 'object');
+      if (documents.length === 0) return null;
+      const leaves: Omit<ConfigEntry, 'lineNumber'>[] = [];
+      for (const doc of documents) {
+        flatten(doc, '', '', leaves);
+      }
+      return locateEntries(leaves, addedLines);
+    }
+  }
+}
+
+/**
+ * Check whether a key name denotes a credential, e.g. `DB_PASS`, `stripeKey`, `api-token`
+ */
+export function isSecretKeyName(key: string): boolean {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  if (words.length === 0) return false;
+
+  const last = words[words.length - 1];
+  if (!SECRET_KEY_WORDS.has(last)) return false;
+  // e.g. Helm's `existingSecret`, which names a Secret rather than holding one
+  if (words.includes('existing')) return false;
+  if (last === 'key' && words.slice(0, -1).some(w => NON_SECRET_KEY_WORDS.has(w))) return false;
+  return true;
+}
+
+/**
+ * Check whether a value is a reference, placeholder or code expression rather than a literal
+ */
+export function isReferenceValue(value: string): boolean {
+  if (PLACEHOLDER_VALUE.test(value)) return true;
+  // Code or template expressions: os.getenv("PW"), process.env.X, ${...}
+  return /[()]|\$\{|process\.env|ENV\[/.test(value);
+}
+
+/**
+ * Check whether a value has the shape of a literal credential rather than a
+ * reference, placeholder or code expression
+ */
+export function isSecretValue(value: string): boolean {
+  if (value.length < 8) return false;
+  if (/\s/.test(value)) return false;
+  if (isReferenceValue(value)) return false;
+  if (isLikelyNonSecret(value)) return false;
+  return calculateEntropy(value) >= 2.5;
+}
@@ -0,0 +1,102 @@
+/**
+ * Workflow job summary: a compact report on the run page, for every event
+ * (including `push` and `workflow_dispatch`, which have no PR to comment on).
+ */
+
+import * as core from '@actions/core';
+import { ReportData, formatLineRange } from './scanner';
+
+// Longest findings table written to the summary; the rest are only counted
+const MAX_SUMMARY_ROWS = 100;
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Write the job summary from the same data as the PR comment. Snippets are the masked ones.
+ */
+export async function writeJobSummary(data: ReportData, filesSkipped: number, failed: boolean): Promise<void> {
+  if (!process.env.GITHUB_STEP_SUMMARY) {
+    core.debug('GITHUB_STEP_SUMMARY is not set, skipping job summary');
+    return;
+  }
+
+  const { findings, suppressed, counts, rules, filesScanned, baseline } = data;
+  const status = findings.length === 0
+    ? '✅ No secrets detected'
+    : failed
+      ? `❌ ${findings.length} potential secret(s) found`
+      : `⚠️ ${findings.length} potential secret(s) found (below the fail_on threshold)`;
+
+  const summary = core.summary
+    .addHeading('🔐 KeySentinel — Secret Scan', 2)
+    .addRaw(`<p><strong>${status}</strong></p>`, true)
+    .addTable([
+      [
+        { data: '🔴 High', header: true },
+        { data: '🟠 Medium', header: true },
+        { data: '🟡 Low', header: true },
+        { data: 'Files scanned', header: true },
+        { data: 'Files skipped', header: true },
+        { data: 'Suppressed', header: true },
+        { data: 'In baseline', header: true },
+      ],
+      [
+        String(counts.high),
+        String(counts.medium),
+        String(counts.low),
+        String(filesScanned),
+        String(filesSkipped),
+        String(suppressed.length),
+        String(baseline.baselined),
+      ],
+    ]);
+
+  if (rules.length > 0) {
+    summary
+      .addHeading('Rules', 3)
+      .addTable([
+        [
+          { data: 'Rule', header: true },
+          { data: 'Type', header: true },
+          { data: 'Findings', header: true },
+        ],
+        ...rules.map(rule => [`<code>${escapeHtml(rule.ruleId)}</code>`, escapeHtml(rule.type), String(rule.count)]),
+      ]);
+  }
+
+  if (findings.length > 0) {
+    summary
+      .addHeading('Findings', 3)
+      .addTable([
+        [
+          { data: 'Severity', header: true },
+          { data: 'File', header: true },
+          { data: 'Line', header: true },
+          { data: 'Rule', header: true },
+          { data: 'Preview', header: true },
+        ],
+        ...findings.slice(0, MAX_SUMMARY_ROWS).map(f => [
+          f.severity,
+          `<code>${escapeHtml(f.file)}</code>`,
+          formatLineRange(f),
+          `<code>${escapeHtml(f.ruleId)}</code>`,
+          `<code>${escapeHtml(f.snippet.replace(/\n/g, ' '))}</code>`,
+        ]),
+      ]);
+    if (findings.length > MAX_SUMMARY_ROWS) {
+      summary.addRaw(`<p><em>…and ${findings.length - MAX_SUMMARY_ROWS} more.</em></p>`, true);
+    }
+  }
+
+  if (baseline.stale.length > 0) {
+    summary.addRaw(
+      `<p>${baseline.stale.length} baseline entr${baseline.stale.length === 1 ? 'y' : 'ies'} no longer match anything. ` +
+      'Run <code>keysentinel baseline</code> to refresh the baseline.</p>',
+      true
+    );
+  }
+
+  await summary.write();
+}
@@ -0,0 +1,84 @@
+/**
+ * Inline suppression markers.
+ *
+ * A comment containing `keysentinel:allow` silences findings on its own line,
+ * `keysentinel:allow-next-line` silences the line below. Either can be limited
+ * to rules and carry a reason:
+ *
+ *   const key = 'AKIA...'; // keysentinel:allow rule=aws-access-key-id reason="test fixture"
+ *
+ * The marker is matched anywhere in the line, so it works with any comment syntax.
+ */
+
+import { Finding, Suppression } from './patterns';
+import { AddedLine } from './structured';
+
+const MARKER = /keysentinel:allow(-next-line)?(?![\w-])(.*)$/i;
+const RULE_ARG = /\brules?=([\w.,-]+)/i;
+const REASON_ARG = /\breason=(?:"([^"]*)"|'([^']*)'|([^\s"']+))/i;
+// Comment closers that may trail an unquoted argument
+const COMMENT_CLOSER = /(?:\*\/|-->|%>|#\})$/;
+
+/**
+ * Parse the marker on a line, if any
+ */
+export function parseSuppression(line: string, lineNumber: number): { suppression: Suppression; nextLine: boolean } | null {
+  const match = line.match(MARKER);
+  if (!match) return null;
+
+  const args = match[2];
+  const rules = args.match(RULE_ARG)?.[1].replace(COMMENT_CLOSER, '');
+  const reason = args.match(REASON_ARG);
+
+  return {
+    suppression: {
+      markerLine: lineNumber,
+      rules: rules ? rules.split(',').filter(Boolean) : null,
+      reason: reason ? (reason[1] ?? reason[2] ?? reason[3].replace(COMMENT_CLOSER, '')) : null,
+    },
+    nextLine: match[1] !== undefined,
+  };
+}
+
+/**
+ * Collect markers by the line they apply to. `lines` should include the diff's
+ * context lines as well as the added ones, since a marker may sit on an unchanged line.
+ */
+export function findSuppressions(lines: AddedLine[]): Map<number, Suppression[]> {
+  const byLine = new Map<number, Suppression[]>();
+
+  for (const { line, lineNumber } of lines) {
+    const parsed = parseSuppression(line, lineNumber);
+    if (!parsed) continue;
+
+    const target = parsed.nextLine ? lineNumber + 1 : lineNumber;
+    const existing = byLine.get(target) ?? [];
+    existing.push(parsed.suppression);
+    byLine.set(target, existing);
+  }
+
+  return byLine;
+}
+
+/**
+ * Mark findings silenced by an inline marker. A multi-line finding is silenced
+ * by a marker on any of its lines. Findings on a file as a whole cannot be silenced inline.
+ */
+export function applySuppressions<T extends Finding>(findings: T[], lines: AddedLine[]): T[] {
+  const byLine = findSuppressions(lines);
+  if (byLine.size === 0) return findings;
+
+  for (const finding of findings) {
+    if (finding.line === null || finding.suppressed) continue;
+
+    for (let n = finding.line; n <= (finding.endLine ?? finding.line); n++) {
+      const suppression = byLine.get(n)?.find(s => s.rules === null || s.rules.includes(finding.ruleId));
+      if (suppression) {
+        finding.suppressed = suppression;
+        break;
+      }
+    }
+  }
+
+  return findings;
+}
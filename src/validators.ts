@@ -0,0 +1,135 @@
+/**
+ * Offline structural validators for token formats.
+ *
+ * Each validator returns true when the value is structurally a real token,
+ * false when it cannot be one (e.g. bad checksum), and null when it cannot tell.
+ * No network access is involved.
+ */
+
+const BASE62_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+let crcTable: number[] | null = null;
+
+/**
+ * CRC32 (IEEE 802.3) of a string's UTF-8 bytes
+ */
+export function crc32(str: string): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of Buffer.from(str, 'utf8')) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toBase62(num: number, width: number): string {
+  let out = '';
+  let n = num;
+  while (n > 0) {
+    out = BASE62_ALPHABET[n % 62] + out;
+    n = Math.floor(n / 62);
+  }
+  return out.padStart(width, '0');
+}
+
+/**
+ * Validate the trailing CRC32 checksum used by GitHub (ghp_, gho_, ghu_, ghs_, ghr_)
+ * and npm (npm_) tokens: 30 random base62 characters followed by the
+ * 6-character base62 CRC32 of those characters.
+ */
+export function validateCrc32Token(value: string): boolean | null {
+  const underscore = value.indexOf('_');
+  const body = value.slice(underscore + 1);
+  if (underscore === -1 || body.length !== 36) return null;
+
+  const random = body.slice(0, 30);
+  const checksum = body.slice(30);
+  return toBase62(crc32(random), 6) === checksum;
+}
+
+function decodeBase64Url(segment: string): string | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(segment)) return null;
+  try {
+    return Buffer.from(segment, 'base64url').toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+function parseJsonObject(text: string | null): Record<string, unknown> | null {
+  if (!text) return null;
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a JWT: header and payload must decode to JSON objects and the header must name an algorithm
+ */
+export function validateJwt(value: string): boolean | null {
+  const segments = value.split('.');
+  if (segments.length !== 3) return false;
+
+  const header = parseJsonObject(decodeBase64Url(segments[0]));
+  const payload = parseJsonObject(decodeBase64Url(segments[1]));
+  if (!header || !payload) return false;
+
+  return typeof header.alg === 'string';
+}
+
+/**
+ * Check that a base64url segment of the given length decodes to whole bytes,
+ * i.e. the unused low bits of its final character are zero.
+ */
+function hasCanonicalBase64Tail(segment: string): boolean {
+  const spareBits = (segment.length * 6) % 8;
+  if (spareBits === 0) return true;
+
+  const last = segment[segment.length - 1];
+  const index = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_'.indexOf(last);
+  return index !== -1 && (index & ((1 << spareBits) - 1)) === 0;
+}
+
+/**
+ * Validate a SendGrid key: SG.<16-byte id>.<32-byte secret>, both base64url encoded
+ */
+export function validateSendGridKey(value: string): boolean | null {
+  const segments = value.split('.');
+  if (segments.length !== 3 || segments[0] !== 'SG') return false;
+  return hasCanonicalBase64Tail(segments[1]) && hasCanonicalBase64Tail(segments[2]);
+}
+
+/**
+ * Validate a Slack bot/user token: numeric workspace and user IDs followed by
+ * a 24-character random secret. Placeholder secrets (single case, no digits) fail.
+ */
+export function validateSlackToken(value: string): boolean | null {
+  const match = value.match(/^xox[bp]-(\d+)-(\d+)-([a-zA-Z0-9]{24})$/);
+  if (!match) return false;
+
+  const secret = match[3];
+  return /[0-9]/.test(secret) && /[a-zA-Z]/.test(secret) && !/^[a-z0-9]+$/.test(secret);
+}
+
+/**
+ * Validate a Stripe secret or restricted key: the part after the prefix is either
+ * 24 characters (legacy) or 99 characters (current format), base62.
+ */
+export function validateStripeKey(value: string): boolean | null {
+  const body = value.replace(/^(?:sk|rk)_(?:live|test)_/, '');
+  if (!/^[0-9a-zA-Z]+$/.test(body)) return false;
+  return body.length === 24 || body.length === 99;
+}
@@ -0,0 +1,215 @@
+/**
+ * Opt-in live verification of detected credentials against their provider.
+ *
+ * Verification sends the raw credential to the provider that issued it, so it
+ * only runs when enabled in config. The HTTP layer is injectable and every
+ * provider's base URL can be overridden, e.g. to point at a local stub server.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { Finding, VerificationStatus } from './patterns';
+
+export interface HttpRequest {
+  method: 'GET' | 'POST';
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  body: string;
+}
+
+export type HttpClient = (request: HttpRequest) => Promise<HttpResponse>;
+
+export interface Verifier {
+  /** Provider key used for base URL overrides (`verify.base_urls.<provider>`) */
+  provider: string;
+  defaultBaseUrl: string;
+  verify(value: string, baseUrl: string, client: HttpClient): Promise<VerificationStatus>;
+}
+
+export interface VerifyConfig {
+  enabled: boolean;
+  baseUrls: Record<string, string>;
+  timeoutMs: number;
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+  return baseUrl.replace(/\/+$/, '') + path;
+}
+
+/**
+ * Map a plain HTTP status to a verification result: 2xx is active, 401 is revoked
+ */
+function statusToResult(status: number, revokedStatuses: number[] = [401]): VerificationStatus {
+  if (status >= 200 && status < 300) return 'active';
+  if (revokedStatuses.includes(status)) return 'revoked';
+  return 'unknown';
+}
+
+const githubVerifier: Verifier = {
+  provider: 'github',
+  defaultBaseUrl: 'https://api.github.com',
+  async verify(value, baseUrl, client) {
+    const response = await client({
+      method: 'GET',
+      url: joinUrl(baseUrl, '/user'),
+      headers: {
+        Authorization: `token ${value}`,
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'keysentinel',
+      },
+    });
+    return statusToResult(response.status);
+  },
+};
+
+const slackVerifier: Verifier = {
+  provider: 'slack',
+  defaultBaseUrl: 'https://slack.com',
+  async verify(value, baseUrl, client) {
+    const response = await client({
+      method: 'POST',
+      url: joinUrl(baseUrl, '/api/auth.test'),
+      headers: {
+        Authorization: `Bearer ${value}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: '',
+    });
+    if (response.status !== 200) return 'unknown';
+
+    // Slack answers 200 either way and reports the outcome in the body
+    try {
+      const parsed = JSON.parse(response.body) as { ok?: boolean; error?: string };
+      if (parsed.ok === true) return 'active';
+      if (['invalid_auth', 'token_revoked', 'token_expired', 'account_inactive'].includes(parsed.error ?? '')) {
+        return 'revoked';
+      }
+    } catch {
+      // Fall through: unparseable body
+    }
+    return 'unknown';
+  },
+};
+
+const stripeVerifier: Verifier = {
+  provider: 'stripe',
+  defaultBaseUrl: 'https://api.stripe.com',
+  async verify(value, baseUrl, client) {
+    const response = await client({
+      method: 'GET',
+      url: joinUrl(baseUrl, '/v1/balance'),
+      headers: { Authorization: `Bearer ${value}` },
+    });
+    // A restricted key without balance access authenticates but gets 403
+    if (response.status === 403) return 'active';
+    return statusToResult(response.status);
+  },
+};
+
+const npmVerifier: Verifier = {
+  provider: 'npm',
+  defaultBaseUrl: 'https://registry.npmjs.org',
+  async verify(value, baseUrl, client) {
+    const response = await client({
+      method: 'GET',
+      url: joinUrl(baseUrl, '/-/whoami'),
+      headers: { Authorization: `Bearer ${value}` },
+    });
+    return statusToResult(response.status);
+  },
+};
+
+const sendgridVerifier: Verifier = {
+  provider: 'sendgrid',
+  defaultBaseUrl: 'https://api.sendgrid.com',
+  async verify(value, baseUrl, client) {
+    const response = await client({
+      method: 'GET',
+      url: joinUrl(baseUrl, '/v3/scopes'),
+      headers: { Authorization: `Bearer ${value}` },
+    });
+    return statusToResult(response.status, [401, 403]);
+  },
+};
+
+/**
+ * Verifiers keyed by rule ID
+ */
+export const VERIFIERS: Record<string, Verifier> = {
+  'github-pat': githubVerifier,
+  'github-oauth-token': githubVerifier,
+  'github-app-token': githubVerifier,
+  'github-app-installation-token': githubVerifier,
+  'github-fine-grained-pat': githubVerifier,
+  'slack-bot-token': slackVerifier,
+  'slack-user-token': slackVerifier,
+  'stripe-live-key': stripeVerifier,
+  'stripe-test-key': stripeVerifier,
+  'stripe-restricted-key': stripeVerifier,
+  'npm-token': npmVerifier,
+  'sendgrid-api-key': sendgridVerifier,
+};
+
+/**
+ * Default HTTP client built on Node's http/https modules
+ */
+export function createHttpClient(timeoutMs: number): HttpClient {
+  return (request) =>
+    new Promise((resolve, reject) => {
+      const url = new URL(request.url);
+      const transport = url.protocol === 'http:' ? http : https;
+      const req = transport.request(
+        url,
+        { method: request.method, headers: request.headers, timeout: timeoutMs },
+        res => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => resolve({ status: res.statusCode ?? 0, body: Buffer.concat(chunks).toString('utf8') }));
+          res.on('error', reject);
+        }
+      );
+      req.on('timeout', () => req.destroy(new Error(`Request to ${url.host} timed out`)));
+      req.on('error', reject);
+      if (request.body !== undefined) req.write(request.body);
+      req.end();
+    });
+}
+
+/**
+ * Verify high-confidence findings that have a verifier, setting `verified` on each.
+ * Each distinct credential is checked once; network errors yield `unknown`.
+ */
+export async function verifyFindings(
+  findings: Finding[],
+  config: VerifyConfig,
+  client: HttpClient = createHttpClient(config.timeoutMs),
+  verifiers: Record<string, Verifier> = VERIFIERS
+): Promise<void> {
+  if (!config.enabled) return;
+
+  const results = new Map<string, VerificationStatus>();
+
+  for (const finding of findings) {
+    const verifier = verifiers[finding.ruleId];
+    if (!verifier || finding.confidence !== 'high') continue;
+
+    const cacheKey = `${verifier.provider}:${finding.rawValue}`;
+    let result = results.get(cacheKey);
+    if (!result) {
+      const baseUrl = config.baseUrls[verifier.provider] ?? verifier.defaultBaseUrl;
+      try {
+        result = await verifier.verify(finding.rawValue, baseUrl, client);
+      } catch {
+        result = 'unknown';
+      }
+      results.set(cacheKey, result);
+    }
+
+    finding.verified = result;
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Working tree walker for full directory scans.
+ *
+ * Lists files below a directory the way git would see them: `.gitignore` files
+ * (and `.git/info/exclude`) are honoured at every level, without needing git
+ * itself, so directories outside a repository can be scanned too.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { shouldIgnoreFile } from './config';
+import { AddedLine } from './structured';
+
+interface IgnoreRule {
+  /** Matched against the path relative to the directory holding the rule */
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  /** Directory the rule applies to, relative to the walk root ('' for the root) */
+  base: string;
+}
+
+export type SkipReason = 'binary' | 'too large' | 'unreadable';
+
+// Git reads this much of a file to decide whether it is binary
+export const BINARY_PROBE_BYTES = 8000;
+
+function globToRegexSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        // `**/` matches zero or more directories
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (c === '*') {
+      source += '[^/]*';
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += '[' + glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\') + ']';
+        i = end;
+      }
+    } else if (c === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      source += c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Parse the rules of a `.gitignore` file. Blank lines and comments are skipped.
+ */
+export function parseGitignore(content: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+
+    try {
+      const body = globToRegexSource(line);
+      rules.push({
+        regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+        negate,
+        dirOnly,
+        base,
+      });
+    } catch {
+      // Malformed pattern; git ignores it too
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Whether a path is ignored by the rules. The last matching rule wins.
+ */
+export function isGitignored(relPath: string, isDir: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.base && !relPath.startsWith(rule.base + '/')) continue;
+
+    const subPath = rule.base ? relPath.slice(rule.base.length + 1) : relPath;
+    if (rule.regex.test(subPath)) ignored = !rule.negate;
+  }
+
+  return ignored;
+}
+
+function readGitignore(file: string, base: string): IgnoreRule[] {
+  try {
+    return parseGitignore(fs.readFileSync(file, 'utf8'), base);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List the files below `start`, as paths relative to `root` with forward slashes,
+ * in a stable order. Files and directories matched by `ignore` globs or by
+ * `.gitignore` rules are left out, as are `.git` directories and symlinks.
+ * `.gitignore` files between `root` and `start` apply too.
+ */
+export function listFiles(root: string, start: string = root, ignore: string[] = []): string[] {
+  const files: string[] = [];
+  const rootRules = readGitignore(path.join(root, '.git', 'info', 'exclude'), '');
+
+  // Rules from the directories above the starting point
+  const startRel = path.relative(root, start).split(path.sep).join('/');
+  const ancestors = startRel ? startRel.split('/') : [];
+  for (let i = 0; i < ancestors.length; i++) {
+    const base = ancestors.slice(0, i).join('/');
+    rootRules.push(...readGitignore(path.join(root, base, '.gitignore'), base));
+  }
+
+  const walk = (dir: string, rel: string, inherited: IgnoreRule[]): void => {
+    const rules = [...inherited, ...readGitignore(path.join(dir, '.gitignore'), rel)];
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    for (const entry of entries) {
+      const entryRel = rel ? `${rel}/${entry.name}` : entry.name;
+
+      if (entry.isDirectory()) {
+        if (entry.name === '.git') continue;
+        if (isGitignored(entryRel, true, rules) || shouldIgnoreFile(entryRel + '/', ignore)) continue;
+        walk(path.join(dir, entry.name), entryRel, rules);
+      } else if (entry.isFile()) {
+        if (isGitignored(entryRel, false, rules) || shouldIgnoreFile(entryRel, ignore)) continue;
+        files.push(entryRel);
+      }
+    }
+  };
+
+  walk(start, startRel, rootRules);
+  return files;
+}
+
+/**
+ * Read a file for a full scan. Files over `maxBytes` and binary files (a NUL
+ * byte near the start, as git judges them) are skipped with the reason.
+ */
+export function readScanFile(fullPath: string, maxBytes: number): { content: string } | { skipped: SkipReason } {
+  try {
+    if (fs.statSync(fullPath).size > maxBytes) return { skipped: 'too large' };
+    const buffer = fs.readFileSync(fullPath);
+    if (buffer.subarray(0, BINARY_PROBE_BYTES).includes(0)) return { skipped: 'binary' };
+    return { content: buffer.toString('utf8') };
+  } catch {
+    return { skipped: 'unreadable' };
+  }
+}
+
+/**
+ * Check a file for a full scan without reading it whole: its size, and whether
+ * it is binary or over `maxBytes` (see readScanFile)
+ */
+export function probeScanFile(fullPath: string, maxBytes: number): { size: number } | { skipped: SkipReason } {
+  let fd: number | undefined;
+  try {
+    const { size } = fs.statSync(fullPath);
+    if (size > maxBytes) return { skipped: 'too large' };
+
+    fd = fs.openSync(fullPath, 'r');
+    const probe = Buffer.alloc(Math.min(size, BINARY_PROBE_BYTES));
+    const read = fs.readSync(fd, probe, 0, probe.length, 0);
+    if (probe.subarray(0, read).includes(0)) return { skipped: 'binary' };
+    return { size };
+  } catch {
+    return { skipped: 'unreadable' };
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+}
+
+/**
+ * Stream a file's lines in windows of `size` lines, so a large file is never
+ * held in memory whole. Each window after the first is preceded by the last
+ * `overlap` lines of the one before, for markers and blocks that cross the cut;
+ * `start` is the first line number the window adds.
+ */
+export async function* readLineWindows(
+  fullPath: string,
+  size: number,
+  overlap: number
+): AsyncGenerator<{ lines: AddedLine[]; start: number }> {
+  const input = fs.createReadStream(fullPath, { encoding: 'utf8' });
+  const reader = readline.createInterface({ input, crlfDelay: Infinity });
+
+  let lines: AddedLine[] = [];
+  let start = 1;
+  let lineNumber = 0;
+  try {
+    for await (const line of reader) {
+      lines.push({ line, lineNumber: ++lineNumber });
+      if (lineNumber - start + 1 === size) {
+        yield { lines, start };
+        lines = lines.slice(-overlap);
+        start = lineNumber + 1;
+      }
+    }
+    if (lineNumber >= start) yield { lines, start };
+  } finally {
+    reader.close();
+    input.destroy();
+  }
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { defaultConfig, loadConfig, scanDiff, scanFileStreaming, scanText, shouldFail, toSafeFinding } from '../src/api';
+
+const AWS_KEY = 'AKIA2E0A8F3B244C9986';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keysentinel-api-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadConfig', () => {
+  it('gives the defaults without a config file', () => {
+    expect(loadConfig({ cwd: dir })).toEqual(defaultConfig());
+  });
+
+  it('merges .keysentinel.yml and overrides over the defaults', () => {
+    fs.writeFileSync(path.join(dir, '.keysentinel.yml'), 'fail_on: low\nignore:\n  - "fixtures/**"\n');
+    const config = loadConfig({ cwd: dir, overrides: { allowlist: 'EXAMPLE' } });
+    expect(config.failOn).toBe('low');
+    expect(config.ignore).toContain('fixtures/**');
+    expect(config.allowlist.map(r => r.source)).toEqual(['EXAMPLE']);
+  });
+
+  it('sends config problems to the logger and prints nothing', () => {
+    fs.writeFileSync(path.join(dir, '.keysentinel.yml'), 'fail_on: sometimes\n');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      const warnings: string[] = [];
+      loadConfig({ cwd: dir, logger: { warn: m => warnings.push(m) } });
+      loadConfig({ cwd: dir });
+      expect(warnings.length).toBeGreaterThan(0);
+      expect(warn).not.toHaveBeenCalled();
+      expect(log).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+      log.mockRestore();
+    }
+  });
+});
+
+describe('scanText', () => {
+  it('reports findings under the given filename, or stdin', () => {
+    expect(scanText(`key = "${AWS_KEY}"`).map(f => [f.file, f.line, f.ruleId])).toEqual([['stdin', 1, 'aws-access-key-id']]);
+    expect(scanText(`key = "${AWS_KEY}"`, { filename: 'a.ts' })[0].file).toBe('a.ts');
+  });
+});
+
+describe('scanDiff', () => {
+  it('splits a multi-file diff and skips ignored files', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,1 +1,2 @@',
+      ' const a = 1;',
+      `+const key = "${AWS_KEY}";`,
+      'diff --git a/node_modules/x/index.js b/node_modules/x/index.js',
+      '--- a/node_modules/x/index.js',
+      '+++ b/node_modules/x/index.js',
+      '@@ -1,0 +1,1 @@',
+      `+const key = "${AWS_KEY}";`,
+    ].join('\n');
+    expect(scanDiff(diff).map(f => [f.file, f.line])).toEqual([['src/a.ts', 2]]);
+  });
+
+  it('reports a bare patch under the given filename', () => {
+    const patch = `@@ -0,0 +1 @@\n+const key = "${AWS_KEY}";\n`;
+    expect(scanDiff(patch, { filename: 'b.ts' }).map(f => [f.file, f.line])).toEqual([['b.ts', 1]]);
+  });
+});
+
+describe('scanFileStreaming', () => {
+  it('streams a large file and finds secrets at their lines', async () => {
+    const lines = new Array<string>(12000).fill('const padding = "' + 'x'.repeat(60) + '";');
+    lines[10999] = `const key = "${AWS_KEY}";`;
+    fs.writeFileSync(path.join(dir, 'big.ts'), lines.join('\n'));
+
+    const findings = await scanFileStreaming('big.ts', { cwd: dir });
+    expect(findings.map(f => [f.file, f.line, f.ruleId])).toEqual([['big.ts', 11000, 'aws-access-key-id']]);
+  });
+
+  it('reports files it skips', async () => {
+    fs.writeFileSync(path.join(dir, 'small.ts'), `const key = "${AWS_KEY}";`);
+    const skipped: string[] = [];
+    const findings = await scanFileStreaming('small.ts', { cwd: dir, maxFileBytes: 4, onSkip: (_file, reason) => skipped.push(reason) });
+    expect(findings).toEqual([]);
+    expect(skipped).toEqual(['too large']);
+  });
+});
+
+describe('results', () => {
+  it('fail at the threshold and can be made safe to log', () => {
+    const findings = scanText(`key = "${AWS_KEY}"`);
+    expect(shouldFail(findings, 'high')).toBe(true);
+    expect(shouldFail(findings, 'off')).toBe(false);
+    expect(JSON.stringify(findings.map(toSafeFinding))).not.toContain(AWS_KEY);
+  });
+});
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  applyBaseline,
+  createBaseline,
+  findStaleEntries,
+  fingerprintFinding,
+  loadBaseline,
+  writeBaseline,
+} from '../src/baseline';
+import { finding } from './helpers';
+
+describe('fingerprintFinding', () => {
+  it('ignores the line, path spelling and the secret formatting', () => {
+    const fingerprint = fingerprintFinding(finding());
+    expect(fingerprintFinding(finding({ line: 40 }))).toBe(fingerprint);
+    expect(fingerprintFinding(finding({ file: './src/a.ts' }))).toBe(fingerprint);
+    expect(fingerprintFinding(finding({ file: 'src\\a.ts' }))).toBe(fingerprint);
+    expect(fingerprintFinding(finding({ rawValue: '"AKIA2E0A8F3B244C9986"' }))).toBe(fingerprint);
+  });
+
+  it('differs by rule, file and secret', () => {
+    const fingerprint = fingerprintFinding(finding());
+    expect(fingerprintFinding(finding({ ruleId: 'generic-secret' }))).not.toBe(fingerprint);
+    expect(fingerprintFinding(finding({ file: 'src/b.ts' }))).not.toBe(fingerprint);
+    expect(fingerprintFinding(finding({ rawValue: 'AKIA2E0A8F3B244C9987' }))).not.toBe(fingerprint);
+  });
+});
+
+describe('baselines', () => {
+  it('records each finding once, sorted, without the secret', () => {
+    const baseline = createBaseline([
+      finding({ file: 'b.ts' }),
+      finding({ file: 'a.ts', line: 9 }),
+      finding({ file: 'a.ts', line: 2, rawValue: 'AKIA2E0A8F3B244C9987' }),
+      finding({ file: 'b.ts', line: 30 }),
+    ]);
+    expect(baseline.entries.map(e => [e.file, e.line])).toEqual([['a.ts', 2], ['a.ts', 9], ['b.ts', 3]]);
+    expect(JSON.stringify(baseline)).not.toContain('AKIA');
+  });
+
+  it('splits findings into new and baselined ones', () => {
+    const accepted = finding();
+    const fresh = finding({ rawValue: 'AKIA2E0A8F3B244C9987' });
+    const result = applyBaseline([finding({ line: 10 }), fresh], createBaseline([accepted]));
+    expect(result.findings).toEqual([fresh]);
+    expect(result.baselined.map(f => f.line)).toEqual([10]);
+    expect(result.matched).toEqual(new Set([fingerprintFinding(accepted)]));
+  });
+
+  it('finds stale entries in missing or fully scanned files only', () => {
+    const baseline = createBaseline([finding({ file: 'gone.ts' }), finding({ file: 'scanned.ts' }), finding({ file: 'unchanged.ts' })]);
+    const stale = findStaleEntries(baseline, new Set(), file => file !== 'gone.ts', new Set(['scanned.ts']));
+    expect(stale.map(e => e.file)).toEqual(['gone.ts', 'scanned.ts']);
+  });
+
+  it('round-trips through a file and rejects other versions', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keysentinel-baseline-'));
+    try {
+      const file = path.join(dir, '.keysentinel-baseline.json');
+      const baseline = createBaseline([finding()]);
+      writeBaseline(file, baseline);
+      expect(loadBaseline(file, {})).toEqual(baseline);
+
+      const warnings: string[] = [];
+      fs.writeFileSync(file, JSON.stringify({ version: 2, entries: [] }));
+      expect(loadBaseline(file, { warn: m => warnings.push(m) })).toBeNull();
+      expect(warnings).toEqual([expect.stringMatching(/^Unsupported baseline version 2/)]);
+      expect(loadBaseline(path.join(dir, 'missing.json'), {})).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,77 @@
+import { execFileSync, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const AWS_KEY = 'AKIA2E0A8F3B244C9986';
+const ROOT = path.resolve(__dirname, '..');
+
+// The CLI runs as a real process, from a build of the sources
+let build: string;
+let work: string;
+
+beforeAll(() => {
+  build = fs.mkdtempSync(path.join(os.tmpdir(), 'keysentinel-cli-build-'));
+  execFileSync(process.execPath, [require.resolve('typescript/bin/tsc'), '-p', ROOT, '--outDir', build, '--declaration', 'false']);
+}, 120000);
+
+afterAll(() => {
+  fs.rmSync(build, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  work = fs.mkdtempSync(path.join(os.tmpdir(), 'keysentinel-cli-'));
+});
+
+afterEach(() => {
+  fs.rmSync(work, { recursive: true, force: true });
+});
+
+function cli(args: string[], input = ''): { status: number | null; stdout: string; stderr: string } {
+  const result = spawnSync(process.execPath, [path.join(build, 'cli.js'), ...args], {
+    cwd: work,
+    input,
+    encoding: 'utf8',
+    env: { ...process.env, NODE_PATH: path.join(ROOT, 'node_modules') },
+    timeout: 60000,
+  });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe('scan-files', () => {
+  it('scans files in full and fails on findings', () => {
+    fs.writeFileSync(path.join(work, 'app.ts'), `const key = "${AWS_KEY}";\n`);
+    fs.writeFileSync(path.join(work, 'clean.ts'), 'export const x = 1;\n');
+
+    const { status, stdout } = cli(['scan-files', 'app.ts', 'clean.ts', '--format', 'json']);
+    expect(status).toBe(1);
+    expect(JSON.parse(stdout).map((f: { file: string; line: number; ruleId: string }) => [f.file, f.line, f.ruleId])).toEqual([
+      ['app.ts', 1, 'aws-access-key-id'],
+    ]);
+    expect(stdout).not.toContain(AWS_KEY);
+  });
+
+  it('passes when nothing is found', () => {
+    fs.writeFileSync(path.join(work, 'clean.ts'), 'export const x = 1;\n');
+    const { status, stdout } = cli(['scan-files', 'clean.ts']);
+    expect(status).toBe(0);
+    expect(stdout).toContain('No secrets detected (scanned 1 file(s)');
+  });
+
+  it('reads standard input under --stdin-filename', () => {
+    const { status, stdout } = cli(
+      ['scan-files', '-', '--stdin-filename', 'secret.yaml', '--format', 'json'],
+      'database:\n  password: Sup3rS3cretPw\n'
+    );
+    // Medium severity, below the default fail_on
+    expect(status).toBe(0);
+    expect(JSON.parse(stdout).map((f: { file: string; ruleId: string; keyPath: string }) => [f.file, f.ruleId, f.keyPath])).toEqual([
+      ['secret.yaml', 'config-secret', 'database.password'],
+    ]);
+  });
+
+  it('skips binary standard input', () => {
+    const { stderr } = cli(['scan-files', '-'], `\0${AWS_KEY}`);
+    expect(stderr).toContain('skipped standard input (binary)');
+  });
+});
@@ -0,0 +1,103 @@
+import { buildConfig } from '../src/config';
+import { MANIFEST_RULES, SECRET_PATTERNS } from '../src/patterns';
+import { SENSITIVE_FILE_PATTERNS } from '../src/filenames';
+import { scanText } from '../src/api';
+
+function withWarnings(yaml: Parameters<typeof buildConfig>[0]): { config: ReturnType<typeof buildConfig>; warnings: string[] } {
+  const warnings: string[] = [];
+  const config = buildConfig(yaml, {}, { warn: m => warnings.push(m) });
+  return { config, warnings };
+}
+
+describe('custom patterns', () => {
+  const acme = {
+    name: 'Acme Live Token',
+    regex: '\\b(acme_live_[A-Za-z0-9]{32})\\b',
+    severity: 'high',
+    keywords: ['acme_live_'],
+    remediation: 'Revoke it in the Acme console.',
+  };
+  const token = 'acme_live_' + 'a1B2c3D4'.repeat(4);
+
+  it('reports matches under the rule id derived from the name', () => {
+    const { config, warnings } = withWarnings({ custom_patterns: [acme] });
+    expect(warnings).toEqual([]);
+
+    const findings = scanText(`ACME=${token}`, { config });
+    expect(findings.map(f => [f.ruleId, f.type, f.severity, f.rawValue, f.remediation])).toEqual([
+      ['acme-live-token', 'Acme Live Token', 'high', token, 'Revoke it in the Acme console.'],
+    ]);
+  });
+
+  it('reports the configured capture group', () => {
+    const rule = { id: 'acme-id', name: 'Acme Id', regex: 'acme_id=(\\w+)-(\\w+)', capture_group: 2 };
+    const { config } = withWarnings({ custom_patterns: [rule] });
+    expect(scanText('acme_id=public-Zq8Kp2Lm9Xw4', { config }).map(f => f.rawValue)).toEqual(['Zq8Kp2Lm9Xw4']);
+  });
+
+  it('can be turned off through its group', () => {
+    const { config } = withWarnings({ custom_patterns: [{ ...acme, group: 'acme' }], patterns: { acme: false } });
+    expect(scanText(`ACME=${token}`, { config })).toEqual([]);
+  });
+
+  it('skips invalid and duplicate rules with a warning', () => {
+    const { config, warnings } = withWarnings({
+      custom_patterns: [
+        { name: 'No Regex' },
+        { name: 'Broken', regex: '(' },
+        { name: 'Nested', regex: '(a+)+' },
+        { id: 'aws-access-key-id', name: 'Clash', regex: 'x' },
+        acme,
+      ],
+    });
+    expect(config.customPatterns.map(p => p.id)).toEqual(['acme-live-token']);
+    expect(warnings).toEqual([
+      expect.stringMatching(/^Invalid custom pattern .*"name" and "regex" are required/),
+      expect.stringMatching(/^Invalid custom pattern regex "\("/),
+      expect.stringMatching(/^Rejected custom pattern regex for "Nested"/),
+      expect.stringMatching(/^Duplicate rule id "aws-access-key-id"/),
+    ]);
+  });
+});
+
+describe('rule ids and overrides', () => {
+  const line = 'aws_access_key_id = AKIA2E0A8F3B244C9986';
+  const scan = (yaml: Parameters<typeof buildConfig>[0]) =>
+    scanText(line, { config: withWarnings(yaml).config }).map(f => [f.ruleId, f.severity, f.confidence]);
+
+  it('gives every built-in rule a unique kebab-case id', () => {
+    const ids = [
+      ...SECRET_PATTERNS.map(p => p.id),
+      ...SENSITIVE_FILE_PATTERNS.map(p => p.id),
+      ...Object.values(MANIFEST_RULES).map(r => r.id),
+    ];
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const id of ids) expect(id).toMatch(/^[a-z0-9]+(?:-[a-z0-9]+)*$/);
+  });
+
+  it('disables a rule with the boolean shorthand', () => {
+    expect(scan({})).toEqual([['aws-access-key-id', 'high', 'high']]);
+    expect(scan({ rules: { 'aws-access-key-id': false } })).toEqual([]);
+  });
+
+  it('overrides severity and confidence', () => {
+    expect(scan({ rules: { 'aws-access-key-id': { severity: 'low', confidence: 'medium' } } })).toEqual([
+      ['aws-access-key-id', 'low', 'medium'],
+    ]);
+  });
+
+  it('lets a rule setting win over its group toggle', () => {
+    expect(scan({ patterns: { aws: false } })).toEqual([]);
+    expect(scan({ patterns: { aws: false }, rules: { 'aws-access-key-id': { enabled: true } } })).toEqual([
+      ['aws-access-key-id', 'high', 'high'],
+    ]);
+  });
+
+  it('warns about unknown ids and invalid levels', () => {
+    const { warnings } = withWarnings({ rules: { 'aws-acess-key-id': false, 'github-pat': { severity: 'urgent' } } });
+    expect(warnings).toEqual([
+      'Unknown rule id "aws-acess-key-id" in rules config; did you mean "aws-access-key-id"?',
+      'Invalid severity "urgent" for rule "github-pat", ignoring',
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { decodeSegments } from '../src/decode';
+import { scanText } from '../src/api';
+
+const AWS_KEY = 'AKIA2E0A8F3B244C9986';
+
+function base64(text: string): string {
+  return Buffer.from(text).toString('base64');
+}
+
+describe('decodeSegments', () => {
+  it('decodes a base64 substring', () => {
+    const encoded = base64(`key=${AWS_KEY}`);
+    const segments = decodeSegments(`data: "${encoded}"`, 3);
+    expect(segments).toContainEqual({ encoded, text: `key=${AWS_KEY}`, chain: ['base64'] });
+  });
+
+  it('decodes a URL-encoded substring', () => {
+    const encoded = `token%3D${AWS_KEY}%26x%3D1`;
+    const [segment] = decodeSegments(`GET /?q=${encoded} HTTP/1.1`, 3);
+    expect(segment).toEqual({ encoded: `/?q=${encoded}`, text: `/?q=token=${AWS_KEY}&x=1`, chain: ['url'] });
+  });
+
+  it('decodes \\x and \\u escapes', () => {
+    const segments = decodeSegments(`s = "\\x41KIA\\u0032E0A8F3B244C9986"`, 3);
+    expect(segments).toContainEqual({
+      encoded: '\\x41KIA\\u0032E0A8F3B244C9986',
+      text: AWS_KEY,
+      chain: ['escape'],
+    });
+  });
+
+  it('follows nested encodings and flattens decoded JSON', () => {
+    const encoded = base64(JSON.stringify({ aws: { key: AWS_KEY } }));
+    const segments = decodeSegments(encoded, 3);
+    expect(segments).toContainEqual({ encoded, text: `aws\nkey\n${AWS_KEY}`, chain: ['base64', 'json'] });
+  });
+
+  it('stops at the maximum depth', () => {
+    const encoded = base64(base64(`key=${AWS_KEY}`));
+    expect(decodeSegments(encoded, 1).map(s => s.chain)).toEqual([['base64']]);
+    expect(decodeSegments(encoded, 2).map(s => s.text)).toContain(`key=${AWS_KEY}`);
+    expect(decodeSegments(encoded, 0)).toEqual([]);
+  });
+
+  it('ignores identifiers and binary noise', () => {
+    expect(decodeSegments('someVeryLongIdentifierName', 3)).toEqual([]);
+    expect(decodeSegments(Buffer.from([0, 1, 2, 3, 250, 251, 252, 253, 254, 255, 0, 1, 2, 3]).toString('base64'), 3)).toEqual([]);
+  });
+
+  it('runs in linear time on long lines without separators', () => {
+    const lines = [
+      'x'.repeat(40000),
+      'aB3'.repeat(14000),
+      `${'y'.repeat(20000)}%41${'y'.repeat(20000)}`,
+      `${'y'.repeat(20000)}\\x41${'y'.repeat(20000)}`,
+    ];
+    for (const line of lines) {
+      const start = Date.now();
+      decodeSegments(line, 3);
+      expect(Date.now() - start).toBeLessThan(500);
+    }
+  });
+});
+
+describe('decoded findings', () => {
+  it('reports a secret found in an encoded payload with its encoding chain', () => {
+    const encoded = base64(`aws_access_key_id = ${AWS_KEY}`);
+    const findings = scanText(`payload: ${encoded}`, { filename: 'notes.txt' });
+    const finding = findings.find(f => f.ruleId === 'aws-access-key-id');
+    expect(finding).toMatchObject({ rawValue: AWS_KEY, encoding: ['base64'] });
+    expect(finding?.snippet).not.toContain(encoded);
+  });
+
+  it('scans a 40 KB minified line quickly', () => {
+    const line = 'function a(b){return b.c+"d"%2};var e=f(g,h);'.repeat(900).slice(0, 40000);
+    const start = Date.now();
+    scanText(line, { filename: 'app.min.js' });
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+});
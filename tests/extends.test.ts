@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mergeYamlConfigs, resolveExtendsSpec } from '../src/extends';
+import { loadConfigChain, loadConfigForCli } from '../src/config';
+
+let root: string;
+
+function write(file: string, content: string): string {
+  const full = path.join(root, file);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+  return full;
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'keysentinel-extends-'));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('mergeYamlConfigs', () => {
+  it('appends lists, merges mappings and overrides other values', () => {
+    const merged = mergeYamlConfigs(
+      { allowlist: ['a', 'b'], rules: { x: 'low', y: false }, fail_on: 'high' },
+      { allowlist: ['b', 'c'], rules: { y: true }, fail_on: 'medium' }
+    );
+    expect(merged).toEqual({ allowlist: ['a', 'b', 'c'], rules: { x: 'low', y: true }, fail_on: 'medium' });
+  });
+
+  it('replaces a base custom rule redefined with the same id', () => {
+    const merged = mergeYamlConfigs(
+      {
+        custom_patterns: [{ name: 'Acme Token', regex: 'acme_[a-z]+' }, { id: 'other', name: 'Other', regex: 'o+' }],
+        custom_file_patterns: [{ id: 'acme-lic', name: 'License', path: 'acme\\.lic$' }],
+      },
+      {
+        custom_patterns: [{ id: 'acme-token', name: 'Acme token v2', regex: 'acme_[A-Za-z0-9]{32}' }, { name: 'New', regex: 'n+' }],
+        custom_file_patterns: [{ id: 'acme-lic', name: 'License', path: 'acme\\.(lic|key)$' }],
+      }
+    );
+    expect(merged).toEqual({
+      custom_patterns: [
+        { id: 'acme-token', name: 'Acme token v2', regex: 'acme_[A-Za-z0-9]{32}' },
+        { id: 'other', name: 'Other', regex: 'o+' },
+        { name: 'New', regex: 'n+' },
+      ],
+      custom_file_patterns: [{ id: 'acme-lic', name: 'License', path: 'acme\\.(lic|key)$' }],
+    });
+  });
+});
+
+describe('resolveExtendsSpec', () => {
+  it('resolves paths relative to the extending config', () => {
+    const base = write('config/base.yml', 'allowlist: []');
+    expect(resolveExtendsSpec('./config/base.yml', root)).toBe(base);
+    expect(() => resolveExtendsSpec('./missing.yml', root)).toThrow(/no config file/);
+  });
+
+  it('finds a package config from a nested directory', () => {
+    write('node_modules/@acme/policy/package.json', '{"name": "@acme/policy"}');
+    const config = write('node_modules/@acme/policy/keysentinel.yml', 'allowlist: []');
+    fs.mkdirSync(path.join(root, 'apps/web'), { recursive: true });
+    expect(resolveExtendsSpec('@acme/policy', path.join(root, 'apps/web'))).toBe(config);
+  });
+
+  it('uses the file named under "keysentinel", even when exports does not list it', () => {
+    write('node_modules/policy/package.json', JSON.stringify({
+      name: 'policy',
+      exports: { '.': './index.js' },
+      keysentinel: 'configs/base.yml',
+    }));
+    const config = write('node_modules/policy/configs/base.yml', 'allowlist: []');
+    const strict = write('node_modules/policy/configs/strict.yml', 'fail_on: low');
+    expect(resolveExtendsSpec('policy', root)).toBe(config);
+    expect(resolveExtendsSpec('policy/configs/strict.yml', root)).toBe(strict);
+  });
+
+  it('rejects a "keysentinel" entry that points at a missing file', () => {
+    write('node_modules/policy/package.json', '{"name": "policy", "keysentinel": "missing.yml"}');
+    expect(() => resolveExtendsSpec('policy', root)).toThrow(/names missing\.yml under "keysentinel"/);
+  });
+
+  it('reports packages that are not installed or ship no config', () => {
+    expect(() => resolveExtendsSpec('not-installed', root)).toThrow(/cannot find package "not-installed"/);
+    write('node_modules/empty/package.json', '{"name": "empty"}');
+    expect(() => resolveExtendsSpec('empty', root)).toThrow(/has no keysentinel\.yml/);
+  });
+});
+
+describe('loadConfigChain', () => {
+  it('loads bases before the extending config', () => {
+    write('base.yml', 'fail_on: low');
+    const config = write('.keysentinel.yml', 'extends: ./base.yml\nfail_on: high');
+    const chain = loadConfigChain(config, { warn: () => undefined });
+    expect(chain.map(source => path.basename(source.path))).toEqual(['base.yml', '.keysentinel.yml']);
+  });
+
+  it('warns about a base it cannot resolve', () => {
+    write('node_modules/policy/package.json', '{"name": "policy", "keysentinel": "missing.yml"}');
+    const config = write('.keysentinel.yml', 'extends: policy');
+    const warnings: string[] = [];
+    loadConfigChain(config, { warn: m => warnings.push(m) });
+    expect(warnings).toEqual([expect.stringMatching(/^Cannot resolve extends "policy" in .*: package "policy" names missing\.yml/)]);
+  });
+
+  it('lets the extending config redefine a base custom pattern', () => {
+    write('base.yml', 'custom_patterns:\n  - id: acme-token\n    name: Acme token\n    regex: "acme_[a-z]+"\n');
+    write('.keysentinel.yml', 'extends: ./base.yml\ncustom_patterns:\n  - id: acme-token\n    name: Acme token\n    regex: "acme_[0-9]+"\n');
+    const warnings: string[] = [];
+    const config = loadConfigForCli({ cwd: root, logger: { warn: m => warnings.push(m) } });
+    expect(config.customPatterns.map(p => [p.id, p.pattern.source])).toEqual([['acme-token', 'acme_[0-9]+']]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('warns about cycles', () => {
+    write('a.yml', 'extends: ./b.yml');
+    write('b.yml', 'extends: ./a.yml');
+    const warnings: string[] = [];
+    loadConfigChain(path.join(root, 'a.yml'), { warn: m => warnings.push(m) });
+    expect(warnings).toEqual([expect.stringMatching(/^Config extends cycle/)]);
+  });
+});
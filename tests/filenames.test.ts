@@ -0,0 +1,54 @@
+import { getEnabledFilePatterns, scanFilePath, SENSITIVE_FILE_PATTERNS } from '../src/filenames';
+import { buildConfig } from '../src/config';
+import { scanDiff } from '../src/api';
+
+const ruleIds = (filename: string, lines: { line: string; lineNumber: number }[] = []): string[] =>
+  scanFilePath(filename, SENSITIVE_FILE_PATTERNS, lines).map(f => f.ruleId);
+
+describe('scanFilePath', () => {
+  it('flags credential files by their path', () => {
+    expect(ruleIds('deploy/id_ed25519')).toEqual(['ssh-private-key-file']);
+    expect(ruleIds('certs/Signing.P12')).toEqual(['pkcs12-file']);
+    expect(ruleIds('android\\release.keystore')).toEqual(['java-keystore-file']);
+    expect(ruleIds('infra/terraform.tfstate.backup')).toEqual(['terraform-state-file']);
+    expect(ruleIds('home/.kube/config')).toEqual(['kubeconfig-file']);
+  });
+
+  it('leaves similar names alone', () => {
+    expect(ruleIds('deploy/id_rsa.pub')).toEqual([]);
+    expect(ruleIds('src/credentials.json.ts')).toEqual([]);
+  });
+
+  it('requires matching content when the rule has a content pattern', () => {
+    expect(ruleIds('.npmrc', [{ line: 'registry=https://registry.npmjs.org/', lineNumber: 1 }])).toEqual([]);
+    expect(ruleIds('.npmrc', [{ line: 'registry=https://registry.npmjs.org/', lineNumber: 1 }, { line: '_authToken=abc123', lineNumber: 2 }])).toEqual(['npmrc-auth-token-file']);
+    expect(ruleIds('.npmrc', [{ line: '_authToken=${NPM_TOKEN}', lineNumber: 1 }])).toEqual([]);
+  });
+
+  it('reports medium confidence when the content is unavailable', () => {
+    const [finding] = scanFilePath('.npmrc', SENSITIVE_FILE_PATTERNS);
+    expect(finding).toMatchObject({ ruleId: 'npmrc-auth-token-file', line: null, confidence: 'medium' });
+  });
+});
+
+describe('getEnabledFilePatterns', () => {
+  it('applies group toggles and rule overrides', () => {
+    const ids = getEnabledFilePatterns({ files: false }, [], { 'pkcs12-file': { enabled: true, severity: 'low' } });
+    expect(ids.map(p => [p.id, p.severity])).toEqual([['pkcs12-file', 'low']]);
+  });
+});
+
+describe('file findings in diffs', () => {
+  it('only judges newly added files by their path', () => {
+    const added = 'diff --git a/keys/id_rsa b/keys/id_rsa\nnew file mode 100644\n--- /dev/null\n+++ b/keys/id_rsa\n@@ -0,0 +1 @@\n+not a key\n';
+    const changed = 'diff --git a/keys/id_rsa b/keys/id_rsa\n--- a/keys/id_rsa\n+++ b/keys/id_rsa\n@@ -1 +1 @@\n-old\n+new\n';
+    expect(scanDiff(added).map(f => [f.file, f.ruleId])).toEqual([['keys/id_rsa', 'ssh-private-key-file']]);
+    expect(scanDiff(changed)).toEqual([]);
+  });
+
+  it('reports custom file patterns', () => {
+    const config = buildConfig({ custom_file_patterns: [{ name: 'Acme License File', path: '(^|/)acme\\.lic$' }] }, {}, {});
+    const diff = 'diff --git a/acme.lic b/acme.lic\nnew file mode 100644\n--- /dev/null\n+++ b/acme.lic\n@@ -0,0 +1 @@\n+x\n';
+    expect(scanDiff(diff, { config }).map(f => f.ruleId)).toEqual(['acme-license-file']);
+  });
+});
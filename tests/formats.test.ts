@@ -0,0 +1,64 @@
+import { formatCsv, formatJson, formatJunit, toSafeFinding } from '../src/formats';
+import { generateReport } from '../src/scanner';
+import { finding } from './helpers';
+
+describe('toSafeFinding', () => {
+  it('drops the raw value and the suppression', () => {
+    const safe = toSafeFinding(finding({ suppressed: { markerLine: 3, rules: null, reason: null } }));
+    expect(safe).not.toHaveProperty('rawValue');
+    expect(safe).not.toHaveProperty('suppressed');
+    expect(safe).toMatchObject({ file: 'src/a.ts', line: 3, ruleId: 'aws-access-key-id' });
+  });
+});
+
+describe('formatJson', () => {
+  it('writes safe findings only', () => {
+    const json = formatJson([finding()]);
+    expect(JSON.parse(json)).toEqual([JSON.parse(JSON.stringify(toSafeFinding(finding())))]);
+    expect(json).not.toContain('AKIA2E0A8F3B244C9986');
+  });
+});
+
+describe('formatJunit', () => {
+  it('fails findings at the threshold, passes the rest and skips suppressed ones', () => {
+    const xml = formatJunit(
+      [finding(), finding({ line: 7, severity: 'low', ruleId: 'high-entropy-string', type: 'High <Entropy>' })],
+      'medium',
+      [finding({ file: 'b.ts', suppressed: { markerLine: 3, rules: null, reason: 'fixture' } })]
+    );
+    expect(xml).toContain('<testsuites name="KeySentinel" tests="3" failures="1" skipped="1">');
+    expect(xml).toContain('<testsuite name="src/a.ts" tests="2" failures="1" skipped="0">');
+    expect(xml).toContain('<failure message="AWS Access Key ID (high)" type="aws-access-key-id">');
+    expect(xml).toContain('<system-out>High &lt;Entropy&gt; in src/a.ts:7');
+    expect(xml).toContain('<skipped message="fixture"/>');
+    expect(xml).not.toContain('AKIA2E0A8F3B244C9986');
+  });
+
+  it('writes a passing test case when there is nothing to report', () => {
+    expect(formatJunit([], 'high')).toContain('<testcase classname="keysentinel" name="No secrets detected"/>');
+  });
+});
+
+describe('formatCsv', () => {
+  it('writes a header and quotes values that need it', () => {
+    const csv = formatCsv([finding({ encoding: ['base64', 'json'], remediation: 'Rotate it, then "revoke" it.' })]);
+    const [header, row] = csv.split('\r\n');
+    expect(header).toBe('file,line,endLine,ruleId,type,severity,confidence,keyPath,encoding,verified,snippet,remediation,commit,author,date,presentAtHead');
+    expect(row).toBe('src/a.ts,3,,aws-access-key-id,AWS Access Key ID,high,high,,base64 -> json,,"key = ""AKI**************986""","Rotate it, then ""revoke"" it.",,,,');
+  });
+
+  it('fills the commit columns for history findings', () => {
+    const commit = { sha: 'abc123', author: 'Dev', email: 'dev@example.com', date: '2024-01-02T03:04:05Z' };
+    const [, row] = formatCsv([finding({ commit, presentAtHead: false })]).split('\r\n');
+    expect(row.endsWith(',abc123,Dev <dev@example.com>,2024-01-02T03:04:05Z,false')).toBe(true);
+  });
+});
+
+describe('generateReport', () => {
+  it('tells high severity findings apart in the status line', () => {
+    expect(generateReport([finding()], 1)).toContain('**Status:** :x: Potential secrets detected');
+    expect(generateReport([finding({ severity: 'medium' })], 1)).toContain(
+      '**Status:** :warning: Possible secrets detected, none of high severity'
+    );
+  });
+});
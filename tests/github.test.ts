@@ -0,0 +1,171 @@
+import { createCheckRun, getFileContent, Octokit, syncReviewComments } from '../src/github';
+import { CheckAnnotation, ReviewComment } from '../src/scanner';
+
+function fakeOctokit(data: Record<string, unknown>): Octokit {
+  return { rest: { repos: { getContent: async () => ({ data }) } } } as unknown as Octokit;
+}
+
+function file(content: Buffer, size = content.length): Record<string, unknown> {
+  return { type: 'file', size, content: content.toString('base64') };
+}
+
+const fetch = (data: Record<string, unknown>, maxBytes?: number) =>
+  getFileContent(fakeOctokit(data), 'o', 'r', 'a.txt', 'sha', maxBytes);
+
+describe('getFileContent', () => {
+  it('decodes text files', async () => {
+    await expect(fetch(file(Buffer.from('hello\n')))).resolves.toEqual({ content: 'hello\n' });
+  });
+
+  it('skips files over the size cap', async () => {
+    await expect(fetch(file(Buffer.from('hello\n')), 4)).resolves.toEqual({ skipped: 'too large' });
+  });
+
+  it('skips files the API returns without content', async () => {
+    await expect(fetch({ type: 'file', size: 2 * 1024 * 1024, content: '' })).resolves.toEqual({ skipped: 'too large' });
+  });
+
+  it('skips binary files', async () => {
+    await expect(fetch(file(Buffer.from([0x89, 0x50, 0x00, 0x47])))).resolves.toEqual({ skipped: 'binary' });
+  });
+
+  it('skips directories', async () => {
+    await expect(fetch({ type: 'dir', size: 0 })).resolves.toEqual({ skipped: 'unreadable' });
+  });
+});
+
+describe('createCheckRun', () => {
+  // Requests numbered in `rateLimited` (from 0) fail once with a rate limit error
+  function checksOctokit(rateLimited: number[] = []): { octokit: Octokit; calls: [string, Record<string, unknown>][] } {
+    const calls: [string, Record<string, unknown>][] = [];
+    let requests = 0;
+    const record = (method: string) => async (params: Record<string, unknown>) => {
+      if (rateLimited.includes(requests++)) {
+        calls.push([`${method} (rate limited)`, params]);
+        throw Object.assign(new Error('API rate limit exceeded'), { status: 403 });
+      }
+      calls.push([method, params]);
+      return { data: { id: 7 } };
+    };
+    const octokit = { rest: { checks: { create: record('create'), update: record('update') } } } as unknown as Octokit;
+    return { octokit, calls };
+  }
+
+  const annotation = (line: number): CheckAnnotation => ({
+    path: 'a.ts',
+    start_line: line,
+    end_line: line,
+    annotation_level: 'failure',
+    title: 'Secret',
+    message: 'masked',
+  });
+
+  it('completes a check run with few annotations in one request', async () => {
+    const { octokit, calls } = checksOctokit();
+    await createCheckRun(octokit, 'o', 'r', 'sha', { conclusion: 'failure', title: '1 secret', summary: 's', annotations: [annotation(1)] });
+    expect(calls.map(([method, params]) => [method, params.status, params.conclusion])).toEqual([['create', 'completed', 'failure']]);
+  });
+
+  it('sends annotations in batches of 50 and concludes with the last one', async () => {
+    const { octokit, calls } = checksOctokit();
+    const annotations = Array.from({ length: 120 }, (_, i) => annotation(i + 1));
+    await createCheckRun(octokit, 'o', 'r', 'sha', { conclusion: 'success', title: 't', summary: 's', annotations });
+    expect(
+      calls.map(([method, params]) => [method, params.status, params.conclusion, (params.output as { annotations: unknown[] }).annotations.length])
+    ).toEqual([
+      ['create', 'in_progress', undefined, 50],
+      ['update', undefined, undefined, 50],
+      ['update', 'completed', 'success', 20],
+    ]);
+  });
+
+  it('retries only the batch that hit the rate limit, on the same check run', async () => {
+    jest.useFakeTimers();
+    try {
+      const { octokit, calls } = checksOctokit([1]);
+      const annotations = Array.from({ length: 120 }, (_, i) => annotation(i + 1));
+      const done = createCheckRun(octokit, 'o', 'r', 'sha', { conclusion: 'failure', title: 't', summary: 's', annotations });
+      await jest.advanceTimersByTimeAsync(60000);
+      await done;
+      const firstLine = (params: Record<string, unknown>) =>
+        (params.output as { annotations: CheckAnnotation[] }).annotations[0].start_line;
+      expect(calls.map(([method, params]) => [method, params.check_run_id, firstLine(params)])).toEqual([
+        ['create', undefined, 1],
+        ['update (rate limited)', 7, 51],
+        ['update', 7, 51],
+        ['update', 7, 101],
+      ]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('syncReviewComments', () => {
+  interface Existing {
+    comments: { id: number; body: string }[];
+    reviews: { id: number; state: string; body: string }[];
+  }
+
+  function reviewOctokit(existing: Existing): { octokit: Octokit; calls: [string, Record<string, unknown>][] } {
+    const calls: [string, Record<string, unknown>][] = [];
+    const record = (method: string) => async (params: Record<string, unknown>) => {
+      calls.push([method, params]);
+      return { data: {} };
+    };
+    const pulls = {
+      listReviewComments: () => undefined,
+      listReviews: () => undefined,
+      createReview: record('createReview'),
+      updateReviewComment: record('updateReviewComment'),
+      dismissReview: record('dismissReview'),
+    };
+    const octokit = {
+      paginate: async (method: unknown) => (method === pulls.listReviewComments ? existing.comments : existing.reviews),
+      rest: { pulls },
+    } as unknown as Octokit;
+    return { octokit, calls };
+  }
+
+  const comment = (key: string, body = 'body'): ReviewComment => ({ key, path: 'a.ts', position: 1, body });
+  const posted = (key: string, body = 'body') => `<!-- keysentinel:review-comment key=${key} -->\n${body}`;
+
+  it('posts new comments, edits changed ones and resolves the rest', async () => {
+    const { octokit, calls } = reviewOctokit({
+      comments: [
+        { id: 1, body: posted('same') },
+        { id: 2, body: posted('changed', 'old') },
+        { id: 3, body: posted('gone') },
+        { id: 4, body: 'a reply without a marker' },
+      ],
+      reviews: [],
+    });
+    await syncReviewComments(octokit, 'o', 'r', 5, 'sha', [comment('same'), comment('changed', 'new'), comment('fresh')], {
+      requestChanges: false,
+      failed: true,
+    });
+
+    expect(calls.map(([method, params]) => [method, params.comment_id ?? params.event])).toEqual([
+      ['updateReviewComment', 2],
+      ['updateReviewComment', 3],
+      ['createReview', 'COMMENT'],
+    ]);
+    expect(calls[1][1].body).toContain('key=gone resolved');
+    expect((calls[2][1].comments as { body: string }[]).map(c => c.body)).toEqual([posted('fresh')]);
+  });
+
+  it('requests changes once on a failing scan and dismisses that review when it passes', async () => {
+    const failing = reviewOctokit({ comments: [], reviews: [] });
+    await syncReviewComments(failing.octokit, 'o', 'r', 5, 'sha', [], { requestChanges: true, failed: true });
+    expect(failing.calls.map(([method, params]) => [method, params.event])).toEqual([['createReview', 'REQUEST_CHANGES']]);
+
+    const review = { id: 9, state: 'CHANGES_REQUESTED', body: '<!-- keysentinel:review -->\nfound' };
+    const stillFailing = reviewOctokit({ comments: [], reviews: [review] });
+    await syncReviewComments(stillFailing.octokit, 'o', 'r', 5, 'sha', [], { requestChanges: true, failed: true });
+    expect(stillFailing.calls).toEqual([]);
+
+    const passing = reviewOctokit({ comments: [], reviews: [review] });
+    await syncReviewComments(passing.octokit, 'o', 'r', 5, 'sha', [], { requestChanges: true, failed: false });
+    expect(passing.calls.map(([method, params]) => [method, params.review_id])).toEqual([['dismissReview', 9]]);
+  });
+});
@@ -0,0 +1,19 @@
+import { Finding } from '../src/patterns';
+
+/**
+ * A high-severity AWS access key finding on line 3 of src/a.ts, with `overrides` applied
+ */
+export function finding(overrides: Partial<Finding> = {}): Finding {
+  return {
+    file: 'src/a.ts',
+    line: 3,
+    ruleId: 'aws-access-key-id',
+    type: 'AWS Access Key ID',
+    severity: 'high',
+    confidence: 'high',
+    snippet: 'key = "AKI**************986"',
+    rawValue: 'AKIA2E0A8F3B244C9986',
+    remediation: 'Rotate the key.',
+    ...overrides,
+  };
+}
@@ -0,0 +1,101 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { scanHistory } from '../src/history';
+import { buildConfig } from '../src/config';
+import { getEnabledPatterns } from '../src/patterns';
+import { getEnabledFilePatterns } from '../src/filenames';
+
+const AWS_KEY = 'AKIA2E0A8F3B244C9986';
+const OTHER_KEY = 'AKIA2E0A8F3B244C9987';
+
+let repo: string;
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, {
+    cwd: repo,
+    encoding: 'utf8',
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Dev',
+      GIT_AUTHOR_EMAIL: 'dev@example.com',
+      GIT_COMMITTER_NAME: 'Dev',
+      GIT_COMMITTER_EMAIL: 'dev@example.com',
+    },
+  });
+}
+
+function commit(files: Record<string, string | null>, message: string): string {
+  for (const [file, content] of Object.entries(files)) {
+    const full = path.join(repo, file);
+    if (content === null) {
+      fs.rmSync(full);
+      continue;
+    }
+    fs.mkdirSync(path.dirname(full), { recursive: true });
+    fs.writeFileSync(full, content);
+  }
+  git('add', '-A');
+  git('commit', '-q', '-m', message);
+  return git('rev-parse', 'HEAD').trim();
+}
+
+function scan(options = {}) {
+  const config = buildConfig(null, {}, {});
+  return scanHistory(
+    repo,
+    options,
+    config,
+    getEnabledPatterns(config.patterns, config.customPatterns, config.rules),
+    getEnabledFilePatterns(config.patterns, config.customFilePatterns, config.rules)
+  );
+}
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'keysentinel-history-'));
+  git('init', '-q', '-b', 'main');
+});
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+});
+
+describe('scanHistory', () => {
+  it('attributes each secret to the commit that introduced it', () => {
+    const first = commit({ 'config.ts': `const key = "${AWS_KEY}";\n` }, 'add key');
+    commit({ 'config.ts': `// moved\nconst key = "${AWS_KEY}";\n`, 'copy.ts': `const key = "${AWS_KEY}";\n` }, 'move key');
+    const third = commit({ 'other.ts': `const key = "${OTHER_KEY}";\n` }, 'another key');
+
+    const { findings, commitsScanned } = scan();
+    expect(commitsScanned).toBe(3);
+    expect(findings.map(f => [f.file, f.rawValue, f.commit?.sha])).toEqual([
+      ['config.ts', AWS_KEY, first],
+      ['other.ts', OTHER_KEY, third],
+    ]);
+    expect(findings[0].commit).toMatchObject({ author: 'Dev', email: 'dev@example.com' });
+  });
+
+  it('tells whether a secret is still present at the tip', () => {
+    commit({ 'a.ts': `const key = "${AWS_KEY}";\n`, 'b.ts': `const key = "${OTHER_KEY}";\n` }, 'add keys');
+    commit({ 'a.ts': 'const key = process.env.KEY;\n' }, 'remove one key');
+
+    const { findings } = scan();
+    expect(findings.map(f => [f.file, f.presentAtHead])).toEqual([
+      ['a.ts', false],
+      ['b.ts', true],
+    ]);
+  });
+
+  it('reports sensitive files added in history, and honours the branch option', () => {
+    commit({ 'README.md': 'hello\n' }, 'init');
+    git('checkout', '-q', '-b', 'feature');
+    commit({ 'certs/prod.p12': 'binary-ish\n' }, 'add cert');
+    commit({ 'certs/prod.p12': null }, 'remove cert');
+    git('checkout', '-q', 'main');
+
+    expect(scan().findings).toEqual([]);
+    const { findings } = scan({ branch: 'feature' });
+    expect(findings.map(f => [f.file, f.ruleId, f.presentAtHead])).toEqual([['certs/prod.p12', 'pkcs12-file', false]]);
+  });
+});
@@ -0,0 +1,98 @@
+import { scanManifest } from '../src/manifests';
+import { buildConfig } from '../src/config';
+import { scanText } from '../src/api';
+
+const config = buildConfig(null, {}, {});
+
+function lines(text: string): { line: string; lineNumber: number }[] {
+  return text.split('\n').map((line, i) => ({ line, lineNumber: i + 1 }));
+}
+
+function rules(text: string, filename: string): [string, number | null][] {
+  return scanText(text, { filename }).map(f => [f.ruleId, f.line]);
+}
+
+describe('scanManifest', () => {
+  it('ignores files that are not manifests', () => {
+    expect(scanManifest('app.yml', lines('password: Sup3rS3cretPw'), config)).toBeNull();
+    expect(scanManifest('main.ts', lines('const x = 1;'), config)).toBeNull();
+  });
+
+  it('decodes Kubernetes Secret data and skips placeholders', () => {
+    const secret = [
+      'apiVersion: v1',
+      'kind: Secret',
+      'metadata:',
+      '  name: db',
+      'data:',
+      `  password: ${Buffer.from('Sup3rS3cretPw').toString('base64')}`,
+      `  empty: ${Buffer.from('changeme').toString('base64')}`,
+      'stringData:',
+      '  token: abcDEF123456ghiJKL',
+    ].join('\n');
+    const findings = scanManifest('secret.yaml', lines(secret), config) ?? [];
+    expect(findings.map(f => [f.ruleId, f.line, f.rawValue, f.keyPath])).toEqual([
+      ['k8s-secret-data', 6, 'Sup3rS3cretPw', 'db.data.password'],
+      ['k8s-secret-data', 9, 'abcDEF123456ghiJKL', 'db.stringData.token'],
+    ]);
+  });
+
+  it('reports credential keys in Helm values', () => {
+    const findings = scanManifest('values-prod.yaml', lines('db:\n  password: Sup3rS3cretPw\n  existingSecret: db-creds'), config);
+    expect(findings?.map(f => [f.ruleId, f.keyPath])).toEqual([['helm-values-credential', 'db.password']]);
+  });
+
+  it('reports literal credentials in docker-compose environments', () => {
+    const compose = 'services:\n  db:\n    environment:\n      - POSTGRES_PASSWORD=Sup3rS3cretPw\n      - PGUSER=postgres';
+    const findings = scanManifest('docker-compose.yml', lines(compose), config);
+    expect(findings?.map(f => [f.ruleId, f.line, f.keyPath])).toEqual([
+      ['compose-env-secret', 4, 'services.db.environment.POSTGRES_PASSWORD'],
+    ]);
+  });
+
+  it('reports Terraform sensitive defaults and credential arguments', () => {
+    const tf = [
+      'variable "db_password" {',
+      '  sensitive = true',
+      '  default   = "Sup3rS3cretPw"',
+      '}',
+      'variable "region" {',
+      '  default = "eu-west-1"',
+      '}',
+      'api_token = "abcDEF123456ghiJKL"',
+    ].join('\n');
+    const findings = scanManifest('main.tf', lines(tf), config);
+    expect(findings?.map(f => [f.ruleId, f.line, f.keyPath])).toEqual([
+      ['terraform-sensitive-value', 3, 'var.db_password'],
+      ['terraform-sensitive-value', 8, 'api_token'],
+    ]);
+  });
+
+  it('honours rule overrides', () => {
+    const quiet = buildConfig({ rules: { 'terraform-sensitive-value': false } }, {}, {});
+    expect(scanManifest('main.tf', lines('api_token = "abcDEF123456ghiJKL"'), quiet)).toEqual([]);
+  });
+});
+
+describe('manifest findings', () => {
+  it('replaces the generic finding on the line a manifest detector reports', () => {
+    expect(rules('api_password = "Sup3rS3cretPw"', 'main.tf')).toEqual([['terraform-sensitive-value', 1]]);
+  });
+
+  it('keeps generic findings on lines no manifest detector covers in Terraform', () => {
+    const tf = 'resource "null_resource" "db" {\n  command = "mysqld --password=Sup3rS3cretPw"\n}';
+    expect(rules(tf, 'main.tf')).toEqual([['generic-password', 2]]);
+  });
+
+  it('keeps generic findings on lines no manifest detector covers in docker-compose', () => {
+    const compose = 'services:\n  db:\n    command: mysqld --password=Sup3rS3cretPw\n    environment:\n      - DB_PASSWORD=An0therS3cret';
+    expect(rules(compose, 'docker-compose.yml')).toEqual([
+      ['generic-password', 3],
+      ['compose-env-secret', 5],
+    ]);
+  });
+
+  it('does not report references', () => {
+    expect(rules('db_password = "${var.db_password}"', 'main.tf')).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describeConfig, loadConfigLayers } from '../src/origins';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keysentinel-origins-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function originOf(values: ReturnType<typeof describeConfig>, key: string): [unknown, string] | undefined {
+  const value = values.find(v => v.path === key);
+  return value && [value.value, value.origin];
+}
+
+describe('loadConfigLayers', () => {
+  it('builds the config from the defaults, the configs it extends, the file and the overrides', () => {
+    fs.writeFileSync(path.join(dir, 'base.yml'), 'fail_on: low\nentropy:\n  threshold: 4.8\n');
+    fs.writeFileSync(path.join(dir, '.keysentinel.yml'), 'extends: ./base.yml\nentropy:\n  threshold: 5\n');
+
+    const layers = loadConfigLayers({ cwd: dir, overrides: { failOn: 'medium' }, overridesOrigin: 'command line', logger: {} });
+    expect(layers.map(l => l.origin)).toEqual(['default', 'base.yml', '.keysentinel.yml', 'command line']);
+    expect(layers.map(l => l.config.failOn)).toEqual(['high', 'low', 'low', 'medium']);
+  });
+
+  it('has only the defaults without a config file', () => {
+    expect(loadConfigLayers({ cwd: dir, logger: {} }).map(l => l.origin)).toEqual(['default']);
+  });
+});
+
+describe('describeConfig', () => {
+  it('attributes each value to the last source that changed it', () => {
+    fs.writeFileSync(path.join(dir, 'base.yml'), 'fail_on: low\nentropy:\n  threshold: 4.8\n');
+    fs.writeFileSync(path.join(dir, '.keysentinel.yml'), 'extends: ./base.yml\nentropy:\n  threshold: 5\n');
+
+    const values = describeConfig(loadConfigLayers({ cwd: dir, overrides: { failOn: 'medium' }, logger: {} }));
+    expect(originOf(values, 'failOn')).toEqual(['medium', 'overrides']);
+    expect(originOf(values, 'entropy.threshold')).toEqual([5, '.keysentinel.yml']);
+    expect(originOf(values, 'entropy.enabled')?.[1]).toBe('default');
+  });
+
+  it('keeps list items with the source that first had them', () => {
+    const defaults = loadConfigLayers({ cwd: dir, logger: {} })[0].config.ignore;
+    fs.writeFileSync(path.join(dir, '.keysentinel.yml'), 'ignore:\n  - "fixtures/**"\nallowlist:\n  - EXAMPLE\n');
+
+    const values = describeConfig(loadConfigLayers({ cwd: dir, logger: {} }));
+    expect(originOf(values, 'ignore[0]')).toEqual([defaults[0], 'default']);
+    expect(values.find(v => v.value === 'fixtures/**')?.origin).toBe('.keysentinel.yml');
+    expect(originOf(values, 'allowlist[0]')).toEqual(['EXAMPLE', '.keysentinel.yml']);
+  });
+});
@@ -0,0 +1,48 @@
+import { resolveConcurrency, runScanJobs, ScanJob } from '../src/pool';
+import { buildConfig } from '../src/config';
+import { scanText } from '../src/api';
+
+const config = buildConfig(null, {}, {});
+const AWS_LINE = 'aws_access_key_id = AKIA2E0A8F3B244C9986';
+
+describe('resolveConcurrency', () => {
+  it('uses the setting, or one worker per CPU for 0', () => {
+    expect(resolveConcurrency(3)).toBe(3);
+    expect(resolveConcurrency(0)).toBeGreaterThan(0);
+  });
+});
+
+describe('runScanJobs', () => {
+  it('scans a small batch in-process and keeps the job order', async () => {
+    const jobs: ScanJob[] = [
+      { kind: 'text', filename: 'a.env', text: 'nothing here', newFile: false },
+      { kind: 'diff', filename: 'b.env', patch: `@@ -0,0 +1 @@\n+${AWS_LINE}`, newFile: true },
+      { kind: 'text', filename: 'c.env', text: `x = 1\n${AWS_LINE}`, newFile: false },
+    ];
+    const results = await runScanJobs(jobs, config, 4);
+    expect(results.map(r => r.findings.map(f => [f.file, f.line, f.ruleId]))).toEqual([
+      [],
+      [['b.env', 1, 'aws-access-key-id']],
+      [['c.env', 2, 'aws-access-key-id']],
+    ]);
+    expect(results.every(r => r.diagnostics.length === 0)).toBe(true);
+  });
+});
+
+describe('scanText on large texts', () => {
+  it('reports each secret once, with its line in the whole text', () => {
+    const lines = new Array<string>(12000).fill('const padding = "' + 'x'.repeat(60) + '";');
+    lines[0] = AWS_LINE;
+    lines[4950] = AWS_LINE; // inside the overlap between the first two windows
+    lines[11999] = AWS_LINE;
+    const text = lines.join('\n');
+    expect(Buffer.byteLength(text)).toBeGreaterThan(512 * 1024);
+
+    const findings = scanText(text, { config, filename: 'big.ts' });
+    expect(findings.map(f => [f.ruleId, f.line])).toEqual([
+      ['aws-access-key-id', 1],
+      ['aws-access-key-id', 4951],
+      ['aws-access-key-id', 12000],
+    ]);
+  });
+});
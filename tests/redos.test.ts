@@ -0,0 +1,105 @@
+import { createScanContext, execAllWithBudget, execWithBudget, findReDoSRisk, matchesWithBudget } from '../src/redos';
+import { buildConfig } from '../src/config';
+import { scanText } from '../src/api';
+
+// Backtracks exponentially on a run of "ab" without a "c", yet passes the static screen
+const SLOW_REGEX = '^(a|b|ab)*c$';
+const SLOW_TEXT = 'ab'.repeat(30);
+
+function timed<T>(run: () => T): { result: T; ms: number } {
+  const start = Date.now();
+  const result = run();
+  return { result, ms: Date.now() - start };
+}
+
+describe('findReDoSRisk', () => {
+  it('flags nested quantifiers and overlapping alternatives', () => {
+    expect(findReDoSRisk('(a+)+b')).toMatch(/nested quantifier/);
+    expect(findReDoSRisk('(\\w|\\d)+')).toMatch(/overlapping alternatives/);
+    expect(findReDoSRisk('(a|aa)*')).toMatch(/overlapping alternatives/);
+  });
+
+  it('accepts ordinary patterns', () => {
+    expect(findReDoSRisk('\\b(acme_live_[A-Za-z0-9]{32})\\b')).toBeNull();
+    expect(findReDoSRisk('(?:^|/)acme\\.lic$')).toBeNull();
+  });
+});
+
+describe('execWithBudget', () => {
+  it('returns the matches of a fast regex', () => {
+    const matches = execWithBudget(/\d+/g, 'a1 b22', 100);
+    expect(matches?.map(m => m[0])).toEqual(['1', '22']);
+  });
+
+  it('interrupts a regex that runs out of time', () => {
+    const { result, ms } = timed(() => execWithBudget(new RegExp(SLOW_REGEX), SLOW_TEXT, 50));
+    expect(result).toBeNull();
+    expect(ms).toBeLessThan(2000);
+  });
+
+  it('gives up on a regex after repeated overruns, for the rest of its scan only', () => {
+    const regex = new RegExp(SLOW_REGEX);
+    const context = createScanContext();
+    expect([1, 2, 3].map(() => matchesWithBudget(regex, SLOW_TEXT, context))).toEqual([null, null, null]);
+    expect(matchesWithBudget(regex, SLOW_TEXT, context)).toBe(false);
+    expect(matchesWithBudget(regex, SLOW_TEXT, createScanContext())).toBeNull();
+  });
+});
+
+describe('execAllWithBudget', () => {
+  it('loses only the texts a regex runs out of time on', () => {
+    const context = createScanContext();
+    const results = execAllWithBudget(new RegExp(SLOW_REGEX), ['abc', SLOW_TEXT, 'bc', 'x'], context);
+    expect(results.map(r => r && r.length)).toEqual([1, null, 1, 0]);
+    expect(context.overruns.size).toBe(1);
+  });
+});
+
+describe('budgeted config regexes', () => {
+  it('stops an allowlist entry the screen misses and keeps the finding', () => {
+    const config = buildConfig({ allowlist: ['(a|1|a1)*c'] }, {}, {});
+    expect(config.allowlist).toHaveLength(1);
+
+    const context = createScanContext();
+    const password = 'Zq8Kp2' + 'a1'.repeat(30);
+    const { result, ms } = timed(() => scanText(`const password = "${password}";`, { config, filename: 'app.ts', context }));
+    expect(ms).toBeLessThan(5000);
+    expect(result.map(f => f.ruleId)).toContain('generic-password');
+
+    expect(context.diagnostics.length).toBeGreaterThan(0);
+    expect(context.diagnostics[0]).toMatchObject({ file: 'app.ts', line: 1, ruleId: 'allowlist' });
+    expect(context.diagnostics[0].message).toContain('Allowlist regex');
+  });
+
+  it('still allowlists values with an entry that runs in time', () => {
+    const config = buildConfig({ allowlist: ['^ab'] }, {}, {});
+    const context = createScanContext();
+    const text = `const password = "${SLOW_TEXT}";\nconst key = "AKIA2E0A8F3B244C9986";`;
+    expect(scanText(text, { config, filename: 'app.ts', context }).map(f => f.line)).toEqual([2]);
+    expect(context.diagnostics).toEqual([]);
+  });
+
+  it('skips a custom pattern only on the lines it runs out of time on', () => {
+    const config = buildConfig(
+      { custom_patterns: [{ name: 'Slow', regex: '(a|b|ab)*c_(\\w{16})', capture_group: 2, keywords: ['ab'] }] },
+      {},
+      {}
+    );
+    const context = createScanContext();
+    const text = ['abc_Zq8Kp2Lm9Xw4Rt7Y', SLOW_TEXT, 'x', 'babc_Hn3Vb6Qs1Dk8Fj2W'].join('\n');
+    const findings = scanText(text, { config, filename: 'app.ts', context });
+    expect(findings.filter(f => f.ruleId === 'slow').map(f => f.line)).toEqual([1, 4]);
+    expect(context.diagnostics).toEqual([expect.objectContaining({ file: 'app.ts', line: 2, ruleId: 'slow' })]);
+  });
+
+  it('stops a custom file pattern the screen misses', () => {
+    const config = buildConfig({ custom_file_patterns: [{ name: 'Slow', path: SLOW_REGEX }] }, {}, {});
+    const context = createScanContext();
+    const { result, ms } = timed(() => scanText('', { config, filename: SLOW_TEXT, newFile: true, context }));
+    expect(ms).toBeLessThan(2000);
+    expect(result).toEqual([]);
+    expect(context.diagnostics).toEqual([
+      expect.objectContaining({ file: SLOW_TEXT, line: undefined, ruleId: 'slow' }),
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { generateSarif, SARIF_VERSION } from '../src/sarif';
+import { fingerprintFinding } from '../src/baseline';
+import { SECRET_PATTERNS } from '../src/patterns';
+import { finding } from './helpers';
+
+describe('generateSarif', () => {
+  it('writes one rule per rule id and one result per finding', () => {
+    const findings = [finding(), finding({ line: 9, rawValue: 'AKIA2E0A8F3B244C9987' }), finding({ ruleId: 'high-entropy-string', type: 'High Entropy String', severity: 'low' })];
+    const log = generateSarif(findings, SECRET_PATTERNS);
+    const [run] = log.runs;
+
+    expect(log.version).toBe(SARIF_VERSION);
+    expect(run.tool.driver.rules.map(r => [r.id, r.defaultConfiguration.level])).toEqual([
+      ['aws-access-key-id', 'error'],
+      ['high-entropy-string', 'note'],
+    ]);
+    expect(run.results.map(r => [r.ruleId, r.ruleIndex, r.level, r.locations[0].physicalLocation.region.startLine])).toEqual([
+      ['aws-access-key-id', 0, 'error', 3],
+      ['aws-access-key-id', 0, 'error', 9],
+      ['high-entropy-string', 1, 'note', 3],
+    ]);
+  });
+
+  it('never writes the raw secret', () => {
+    expect(JSON.stringify(generateSarif([finding()], SECRET_PATTERNS))).not.toContain('AKIA2E0A8F3B244C9986');
+  });
+
+  it('uses the baseline fingerprint and marks suppressed findings', () => {
+    const suppressed = finding({ suppressed: { markerLine: 3, rules: null, reason: 'fixture' } });
+    const [result] = generateSarif([suppressed]).runs[0].results;
+    expect(result.partialFingerprints).toEqual({ 'keysentinel/v1': fingerprintFinding(suppressed) });
+    expect(result.suppressions).toEqual([{ kind: 'inSource', justification: 'fixture' }]);
+  });
+
+  it('locates file findings at the first line and key blocks by their range', () => {
+    const results = generateSarif([
+      finding({ ruleId: 'pkcs12-file', line: null, file: 'certs\\a.p12' }),
+      finding({ ruleId: 'rsa-private-key', line: 4, endLine: 30 }),
+    ]).runs[0].results;
+    expect(results.map(r => r.locations[0].physicalLocation)).toEqual([
+      { artifactLocation: { uri: 'certs/a.p12', uriBaseId: '%SRCROOT%' }, region: { startLine: 1 } },
+      {
+        artifactLocation: { uri: 'src/a.ts', uriBaseId: '%SRCROOT%' },
+        region: { startLine: 4, endLine: 30, snippet: { text: 'key = "AKI**************986"' } },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import { buildAnnotations, buildReviewComments, extractDiffPositions } from '../src/scanner';
+import { finding } from './helpers';
+
+describe('extractDiffPositions', () => {
+  it('maps added lines to their offset from the first hunk header', () => {
+    const patch = '@@ -1,2 +1,3 @@\n line 1\n+line 2\n line 3\n@@ -10,1 +11,2 @@\n line 11\n+line 12';
+    expect([...extractDiffPositions(patch)]).toEqual([[2, 2], [12, 6]]);
+  });
+});
+
+describe('buildAnnotations', () => {
+  it('annotates each finding at its lines, at a level for its severity', () => {
+    const annotations = buildAnnotations([
+      finding(),
+      finding({ ruleId: 'rsa-private-key', type: 'RSA Private Key', line: 5, endLine: 30, severity: 'medium', keyPath: 'tls.key' }),
+      finding({ ruleId: 'pkcs12-file', type: 'PKCS#12', line: null, severity: 'low', file: 'a.p12' }),
+    ]);
+    expect(annotations.map(a => [a.path, a.start_line, a.end_line, a.annotation_level, a.title])).toEqual([
+      ['src/a.ts', 3, 3, 'failure', 'AWS Access Key ID (high)'],
+      ['src/a.ts', 5, 30, 'warning', 'RSA Private Key (medium)'],
+      ['a.p12', 1, 1, 'notice', 'PKCS#12 (low)'],
+    ]);
+    expect(annotations[1].raw_details).toBe('Rule: rsa-private-key\nConfidence: high\nKey: tls.key');
+  });
+
+  it('shows the masked snippet and remediation, never the secret', () => {
+    const [annotation] = buildAnnotations([finding()]);
+    expect(annotation.message).toBe('key = "AKI**************986"\n\nFix: Rotate the key.');
+    expect(JSON.stringify(annotation)).not.toContain('AKIA2E0A8F3B244C9986');
+  });
+});
+
+describe('buildReviewComments', () => {
+  const positions = new Map([['src/a.ts', new Map([[3, 4]])]]);
+
+  it('anchors a comment at the diff position of each finding on a diff line', () => {
+    const comments = buildReviewComments(
+      [finding({ keyPath: 'aws.key' }), finding({ line: 9 }), finding({ line: null }), finding({ file: 'b.ts' })],
+      positions
+    );
+    expect(comments.map(c => [c.path, c.position])).toEqual([['src/a.ts', 4]]);
+    expect(comments[0].body).toContain('**AWS Access Key ID** (high) at key `aws.key` — rule `aws-access-key-id`');
+    expect(comments[0].body).toContain('`key = "AKI**************986"`');
+    expect(comments[0].body).not.toContain('AKIA2E0A8F3B244C9986');
+  });
+
+  it('keys comments by fingerprint and line, so reruns find them again', () => {
+    const [first] = buildReviewComments([finding()], positions);
+    const [again] = buildReviewComments([finding({ snippet: 'changed' })], positions);
+    expect(first.key).toMatch(/^[0-9a-f]{16}:3$/);
+    expect(again.key).toBe(first.key);
+  });
+});
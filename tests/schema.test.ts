@@ -0,0 +1,68 @@
+import { closestMatch, formatConfigIssue, validateYamlConfig } from '../src/schema';
+
+function problems(value: unknown): string[] {
+  return validateYamlConfig(value).issues.map(formatConfigIssue);
+}
+
+describe('closestMatch', () => {
+  it('suggests the nearest candidate for a likely typo, and nothing otherwise', () => {
+    expect(closestMatch('fail-on', ['fail_on', 'ignore'])).toBe('fail_on');
+    expect(closestMatch('treshold', ['threshold', 'enabled'])).toBe('threshold');
+    expect(closestMatch('banana', ['fail_on', 'ignore'])).toBeUndefined();
+  });
+});
+
+describe('validateYamlConfig', () => {
+  it('accepts a valid config as is', () => {
+    const config = {
+      fail_on: 'medium',
+      ignore: ['dist/**'],
+      rules: { 'aws-access-key-id': false, 'github-pat': { severity: 'low' } },
+      entropy: { threshold: 4.2 },
+      concurrency: 'auto',
+    };
+    expect(validateYamlConfig(config)).toEqual({ config, issues: [] });
+  });
+
+  it('reports unknown keys and values with the closest known one', () => {
+    expect(problems({ 'fail-on': 'high', entropy: { treshold: 4 }, rules: { x: { severity: 'meduim' } } })).toEqual([
+      'fail-on: unknown key; did you mean "fail_on"?',
+      'entropy.treshold: unknown key; did you mean "entropy.threshold"?',
+      'rules.x.severity: unknown value "meduim", expected one of "high", "medium", "low"; did you mean "medium"?',
+    ]);
+  });
+
+  it('reports type mismatches and missing required keys by key path', () => {
+    expect(
+      problems({
+        max_files: 0,
+        ignore: ['a', 3],
+        post_no_findings: 'yes',
+        custom_patterns: [{ name: 'Internal token', regex: 'tok_[a-z]+' }, { name: 'No regex' }],
+      })
+    ).toEqual([
+      'max_files: expected an integer of at least 1, got number 0',
+      'ignore[1]: expected a string, got number 3',
+      'post_no_findings: expected true or false, got string "yes"',
+      'custom_patterns[1].regex: is required',
+    ]);
+  });
+
+  it('leaves out only the invalid values', () => {
+    const { config } = validateYamlConfig({
+      fail_on: 'sometimes',
+      ignore: ['a', 3],
+      entropy: { enabled: true, min_length: 'long' },
+      custom_patterns: [{ name: 'Internal token', regex: 'tok_[a-z]+' }, { name: 'No regex' }],
+    });
+    expect(config).toEqual({
+      ignore: ['a'],
+      entropy: { enabled: true },
+      custom_patterns: [{ name: 'Internal token', regex: 'tok_[a-z]+' }],
+    });
+  });
+
+  it('reports a config that is not a mapping', () => {
+    expect(problems(['fail_on'])).toEqual([': expected a mapping, got a list']);
+  });
+});
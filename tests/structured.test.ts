@@ -0,0 +1,105 @@
+import { detectStructuredFormat, isReferenceValue, isSecretKeyName, isSecretValue, parseStructured } from '../src/structured';
+import { buildConfig } from '../src/config';
+import { scanText } from '../src/api';
+
+function lines(text: string): { line: string; lineNumber: number }[] {
+  return text.split('\n').map((line, i) => ({ line, lineNumber: i + 1 }));
+}
+
+describe('detectStructuredFormat', () => {
+  it('detects formats from file names', () => {
+    expect(detectStructuredFormat('.env')).toBe('env');
+    expect(detectStructuredFormat('config/.env.production')).toBe('env');
+    expect(detectStructuredFormat('settings.json')).toBe('json');
+    expect(detectStructuredFormat('deploy/app.YAML')).toBe('yaml');
+    expect(detectStructuredFormat('application.properties')).toBe('properties');
+    expect(detectStructuredFormat('setup.cfg')).toBe('ini');
+    expect(detectStructuredFormat('main.ts')).toBeNull();
+  });
+});
+
+describe('parseStructured', () => {
+  it('parses .env assignments, quoted and commented', () => {
+    const entries = parseStructured('.env', lines('export DB_PASS="p@ss word"\nAPI_TOKEN=abc123 # note'));
+    expect(entries).toEqual([
+      { keyPath: 'DB_PASS', key: 'DB_PASS', value: 'p@ss word', lineNumber: 1 },
+      { keyPath: 'API_TOKEN', key: 'API_TOKEN', value: 'abc123', lineNumber: 2 },
+    ]);
+  });
+
+  it('gives nested YAML values their key path and line', () => {
+    const entries = parseStructured('compose.yml', lines('services:\n  api:\n    environment:\n      - STRIPE_KEY=sk_abc'));
+    expect(entries).toEqual([
+      { keyPath: 'services.api.environment.STRIPE_KEY', key: 'STRIPE_KEY', value: 'sk_abc', lineNumber: 4 },
+    ]);
+  });
+
+  it('prefixes INI keys with their section', () => {
+    const entries = parseStructured('app.ini', lines('[database]\npassword = hunter22'));
+    expect(entries).toEqual([{ keyPath: 'database.password', key: 'password', value: 'hunter22', lineNumber: 2 }]);
+  });
+
+  it('returns null for fragments that do not parse', () => {
+    expect(parseStructured('a.json', lines('"key": "value",'))).toBeNull();
+    expect(parseStructured('a.txt', lines('key=value'))).toBeNull();
+  });
+});
+
+describe('isSecretKeyName', () => {
+  it('recognises credential key names', () => {
+    for (const key of ['DB_PASS', 'stripeKey', 'api-token', 'clientSecret', 'password']) {
+      expect(isSecretKeyName(key)).toBe(true);
+    }
+  });
+
+  it('rejects identifiers that only look like credentials', () => {
+    for (const key of ['publicKey', 'sort_key', 'existingSecret', 'username', 'tokenizer']) {
+      expect(isSecretKeyName(key)).toBe(false);
+    }
+  });
+});
+
+describe('isSecretValue', () => {
+  it('accepts literal credentials', () => {
+    expect(isSecretValue('Sup3rS3cretPw')).toBe(true);
+  });
+
+  it('rejects placeholders and references', () => {
+    for (const value of ['${DB_PASSWORD}', '<your-token>', 'changeme', 'process.env.TOKEN', 'short']) {
+      expect(isSecretValue(value)).toBe(false);
+    }
+  });
+});
+
+describe('isReferenceValue', () => {
+  it('recognises references and code expressions', () => {
+    for (const value of ['${DB_PASSWORD}', '$TOKEN', '{{ .Values.token }}', 'os.getenv("PW")', 'changeme']) {
+      expect(isReferenceValue(value)).toBe(true);
+    }
+    expect(isReferenceValue('Sup3rS3cretPw')).toBe(false);
+  });
+});
+
+describe('structured findings', () => {
+  it('reports a secret-named key with its key path instead of the generic rule', () => {
+    const findings = scanText('database:\n  password: Sup3rS3cretPw', { filename: 'config.yml' });
+    expect(findings.map(f => [f.ruleId, f.line, f.keyPath])).toEqual([['config-secret', 2, 'database.password']]);
+  });
+
+  it('keeps a generic finding the config key rule does not replace', () => {
+    const findings = scanText('db:\n  command: mysqld --password=Sup3rS3cretPw', { filename: 'config.yml' });
+    expect(findings.map(f => [f.ruleId, f.line, f.rawValue, f.keyPath])).toEqual([
+      ['generic-password', 2, 'Sup3rS3cretPw', 'db.command'],
+    ]);
+  });
+
+  it('keeps generic findings when the config key rule is disabled', () => {
+    const config = buildConfig({ rules: { 'config-secret': false } }, {}, {});
+    const findings = scanText('database:\n  password: Sup3rS3cretPw', { config, filename: 'config.yml' });
+    expect(findings.map(f => f.ruleId)).toEqual(['generic-password']);
+  });
+
+  it('does not report references and placeholders', () => {
+    expect(scanText('DB_PASSWORD=${DB_PASSWORD}\nAPI_TOKEN=<your-token>', { filename: '.env' })).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { writeJobSummary } from '../src/summary';
+import { buildReportData } from '../src/scanner';
+import { finding } from './helpers';
+
+describe('buildReportData', () => {
+  it('tallies reported findings by severity and rule, apart from suppressed ones', () => {
+    const data = buildReportData(
+      [
+        finding(),
+        finding({ line: 4, ruleId: 'github-pat', type: 'GitHub PAT', severity: 'medium' }),
+        finding({ line: 5 }),
+        finding({ line: 6, suppressed: { markerLine: 6, rules: null, reason: null } }),
+      ],
+      2
+    );
+    expect(data.counts).toEqual({ high: 2, medium: 1, low: 0 });
+    expect(data.rules).toEqual([
+      { ruleId: 'aws-access-key-id', type: 'AWS Access Key ID', count: 2 },
+      { ruleId: 'github-pat', type: 'GitHub PAT', count: 1 },
+    ]);
+    expect(data.suppressed.map(f => f.line)).toEqual([6]);
+  });
+});
+
+describe('writeJobSummary', () => {
+  let dir: string;
+  let summaryFile: string;
+  const previous = process.env.GITHUB_STEP_SUMMARY;
+
+  // core.summary keeps the path of the first file it writes to
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keysentinel-summary-'));
+    summaryFile = path.join(dir, 'summary.md');
+  });
+
+  beforeEach(() => {
+    fs.writeFileSync(summaryFile, '');
+    process.env.GITHUB_STEP_SUMMARY = summaryFile;
+  });
+
+  afterAll(() => {
+    process.env.GITHUB_STEP_SUMMARY = previous;
+    if (previous === undefined) delete process.env.GITHUB_STEP_SUMMARY;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the counts, rules and masked findings', async () => {
+    await writeJobSummary(buildReportData([finding({ snippet: 'key = "AKI**************986" // <b>' })], 4), 1, true);
+    const summary = fs.readFileSync(summaryFile, 'utf8');
+    expect(summary).toContain('❌ 1 potential secret(s) found');
+    expect(summary).toContain('<td>1</td><td>0</td><td>0</td><td>4</td><td>1</td><td>0</td><td>0</td>');
+    expect(summary).toContain('<code>aws-access-key-id</code>');
+    expect(summary).toContain('<code>key = "AKI**************986" // &lt;b&gt;</code>');
+    expect(summary).not.toContain('AKIA2E0A8F3B244C9986');
+  });
+
+  it('reports a clean scan and findings below the threshold', async () => {
+    await writeJobSummary(buildReportData([], 4), 0, false);
+    expect(fs.readFileSync(summaryFile, 'utf8')).toContain('✅ No secrets detected');
+
+    fs.writeFileSync(summaryFile, '');
+    await writeJobSummary(buildReportData([finding({ severity: 'low' })], 4), 0, false);
+    expect(fs.readFileSync(summaryFile, 'utf8')).toContain('(below the fail_on threshold)');
+  });
+
+  it('does nothing outside a workflow run', async () => {
+    delete process.env.GITHUB_STEP_SUMMARY;
+    await expect(writeJobSummary(buildReportData([finding()], 1), 0, true)).resolves.toBeUndefined();
+    expect(fs.readFileSync(summaryFile, 'utf8')).toBe('');
+  });
+});
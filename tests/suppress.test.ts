@@ -0,0 +1,60 @@
+import { parseSuppression } from '../src/suppress';
+import { scanDiff, scanText, shouldFail } from '../src/api';
+
+const AWS_KEY = 'AKIA2E0A8F3B244C9986';
+
+describe('parseSuppression', () => {
+  it('parses markers with rules and a reason in any comment syntax', () => {
+    expect(parseSuppression(`k = '${AWS_KEY}' # keysentinel:allow`, 3)).toEqual({
+      suppression: { markerLine: 3, rules: null, reason: null },
+      nextLine: false,
+    });
+    expect(parseSuppression('// keysentinel:allow-next-line rules=aws-access-key-id,github-pat reason="test fixture"', 7)).toEqual({
+      suppression: { markerLine: 7, rules: ['aws-access-key-id', 'github-pat'], reason: 'test fixture' },
+      nextLine: true,
+    });
+    expect(parseSuppression('/* keysentinel:allow rule=npm-token reason=vendored */', 1)?.suppression).toEqual({
+      markerLine: 1,
+      rules: ['npm-token'],
+      reason: 'vendored',
+    });
+  });
+
+  it('ignores lines without a marker', () => {
+    expect(parseSuppression('const allow = true;', 1)).toBeNull();
+    expect(parseSuppression('keysentinel:allowed', 1)).toBeNull();
+  });
+});
+
+describe('suppressed findings', () => {
+  it('keeps findings silenced on their own line or the line above, marked as suppressed', () => {
+    const text = [
+      `a = "${AWS_KEY}" // keysentinel:allow reason="docs example"`,
+      '// keysentinel:allow-next-line',
+      `b = "${AWS_KEY}"`,
+      `c = "${AWS_KEY}"`,
+    ].join('\n');
+    const findings = scanText(text, { filename: 'a.ts' });
+    expect(findings.map(f => [f.line, f.suppressed?.markerLine ?? null, f.suppressed?.reason ?? null])).toEqual([
+      [1, 1, 'docs example'],
+      [3, 2, null],
+      [4, null, null],
+    ]);
+  });
+
+  it('only silences the rules a marker names', () => {
+    const findings = scanText(`a = "${AWS_KEY}" // keysentinel:allow rule=github-pat`, { filename: 'a.ts' });
+    expect(findings.map(f => f.suppressed)).toEqual([undefined]);
+  });
+
+  it('honours a marker on an unchanged line of a diff', () => {
+    const patch = `@@ -1,1 +1,2 @@\n // keysentinel:allow-next-line\n+key = "${AWS_KEY}"\n`;
+    expect(scanDiff(patch, { filename: 'a.ts' }).map(f => f.suppressed?.markerLine)).toEqual([1]);
+  });
+
+  it('does not fail the scan on suppressed findings', () => {
+    const findings = scanText(`a = "${AWS_KEY}" // keysentinel:allow`, { filename: 'a.ts' });
+    expect(findings).toHaveLength(1);
+    expect(shouldFail(findings, 'low')).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createHttpClient, HttpClient, HttpRequest, verifyFindings, VerifyConfig } from '../src/verify';
+import { finding } from './helpers';
+
+function stubClient(respond: (request: HttpRequest) => { status: number; body?: string }): { client: HttpClient; requests: HttpRequest[] } {
+  const requests: HttpRequest[] = [];
+  const client: HttpClient = async request => {
+    requests.push(request);
+    const { status, body = '' } = respond(request);
+    return { status, body };
+  };
+  return { client, requests };
+}
+
+const enabled: VerifyConfig = { enabled: true, baseUrls: {}, timeoutMs: 1000 };
+
+describe('verifyFindings', () => {
+  it('does nothing unless enabled', async () => {
+    const { client, requests } = stubClient(() => ({ status: 200 }));
+    const findings = [finding({ ruleId: 'github-pat', rawValue: 'ghp_token' })];
+    await verifyFindings(findings, { ...enabled, enabled: false }, client);
+    expect(requests).toEqual([]);
+    expect(findings[0].verified).toBeUndefined();
+  });
+
+  it('maps provider responses to a status, checking each credential once', async () => {
+    const { client, requests } = stubClient(request => (request.headers.Authorization === 'token ghp_live' ? { status: 200 } : { status: 401 }));
+    const findings = [
+      finding({ ruleId: 'github-pat', rawValue: 'ghp_live' }),
+      finding({ ruleId: 'github-pat', rawValue: 'ghp_dead' }),
+      finding({ ruleId: 'github-oauth-token', rawValue: 'ghp_live' }),
+    ];
+    await verifyFindings(findings, enabled, client);
+    expect(findings.map(f => f.verified)).toEqual(['active', 'revoked', 'active']);
+    expect(requests.map(r => r.url)).toEqual(['https://api.github.com/user', 'https://api.github.com/user']);
+  });
+
+  it('reads the Slack outcome from the body', async () => {
+    const { client } = stubClient(request =>
+      request.headers.Authorization === 'Bearer xoxb-ok' ? { status: 200, body: '{"ok":true}' } : { status: 200, body: '{"ok":false,"error":"token_revoked"}' }
+    );
+    const findings = [
+      finding({ ruleId: 'slack-bot-token', rawValue: 'xoxb-ok' }),
+      finding({ ruleId: 'slack-bot-token', rawValue: 'xoxb-old' }),
+    ];
+    await verifyFindings(findings, enabled, client);
+    expect(findings.map(f => f.verified)).toEqual(['active', 'revoked']);
+  });
+
+  it('skips low-confidence findings and rules without a verifier, and treats errors as unknown', async () => {
+    const client: HttpClient = async () => {
+      throw new Error('offline');
+    };
+    const findings = [
+      finding({ ruleId: 'npm-token', rawValue: 'npm_x', confidence: 'medium' }),
+      finding({ ruleId: 'aws-access-key-id', rawValue: 'AKIA' }),
+      finding({ ruleId: 'npm-token', rawValue: 'npm_y' }),
+    ];
+    await verifyFindings(findings, enabled, client);
+    expect(findings.map(f => f.verified)).toEqual([undefined, undefined, 'unknown']);
+  });
+});
+
+describe('createHttpClient', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      res.statusCode = req.headers.authorization === 'Bearer npm_live' ? 200 : 401;
+      res.end(`${req.method} ${req.url}`);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('sends requests to a base URL override, e.g. a local stub', async () => {
+    const response = await createHttpClient(1000)({ method: 'GET', url: `${baseUrl}/-/whoami`, headers: {} });
+    expect(response).toEqual({ status: 401, body: 'GET /-/whoami' });
+
+    const findings = [finding({ ruleId: 'npm-token', rawValue: 'npm_live' }), finding({ ruleId: 'npm-token', rawValue: 'npm_dead' })];
+    await verifyFindings(findings, { ...enabled, baseUrls: { npm: baseUrl } });
+    expect(findings.map(f => f.verified)).toEqual(['active', 'revoked']);
+  });
+});
@@ -0,0 +1,105 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isGitignored, listFiles, parseGitignore, readLineWindows, readScanFile } from '../src/walk';
+import { scanFiles } from '../src/api';
+
+let root: string;
+
+function write(file: string, content: string | Buffer): void {
+  const full = path.join(root, file);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  fs.writeFileSync(full, content);
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'keysentinel-walk-'));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('gitignore rules', () => {
+  it('matches unanchored, anchored and directory patterns, with the last rule winning', () => {
+    const rules = parseGitignore('# comment\n*.log\n!keep.log\n/build\ncache/\n');
+    expect(isGitignored('debug.log', false, rules)).toBe(true);
+    expect(isGitignored('src/debug.log', false, rules)).toBe(true);
+    expect(isGitignored('keep.log', false, rules)).toBe(false);
+    expect(isGitignored('build', true, rules)).toBe(true);
+    expect(isGitignored('src/build', true, rules)).toBe(false);
+    expect(isGitignored('cache', true, rules)).toBe(true);
+    expect(isGitignored('cache', false, rules)).toBe(false);
+  });
+
+  it('applies nested rules below their directory only', () => {
+    const rules = parseGitignore('*.tmp', 'pkg');
+    expect(isGitignored('pkg/a.tmp', false, rules)).toBe(true);
+    expect(isGitignored('a.tmp', false, rules)).toBe(false);
+  });
+});
+
+describe('listFiles', () => {
+  it('lists files in order, honouring .gitignore files, ignore globs and .git', () => {
+    write('.gitignore', 'dist/\n');
+    write('src/b.ts', '');
+    write('src/a.ts', '');
+    write('src/.gitignore', '*.gen.ts\n');
+    write('src/x.gen.ts', '');
+    write('dist/index.js', '');
+    write('docs/guide.md', '');
+    write('.git/config', '');
+
+    expect(listFiles(root, root, ['docs/**'])).toEqual(['.gitignore', 'src/.gitignore', 'src/a.ts', 'src/b.ts']);
+  });
+
+  it('applies .gitignore files above the starting directory', () => {
+    write('.gitignore', '*.secret\n');
+    write('pkg/a.secret', '');
+    write('pkg/a.ts', '');
+    expect(listFiles(root, path.join(root, 'pkg'))).toEqual(['pkg/a.ts']);
+  });
+});
+
+describe('readScanFile', () => {
+  it('reads text and skips binary and oversized files', () => {
+    write('a.txt', 'hello');
+    write('b.bin', Buffer.from([1, 0, 2]));
+    expect(readScanFile(path.join(root, 'a.txt'), 100)).toEqual({ content: 'hello' });
+    expect(readScanFile(path.join(root, 'a.txt'), 2)).toEqual({ skipped: 'too large' });
+    expect(readScanFile(path.join(root, 'b.bin'), 100)).toEqual({ skipped: 'binary' });
+    expect(readScanFile(path.join(root, 'missing'), 100)).toEqual({ skipped: 'unreadable' });
+  });
+});
+
+describe('readLineWindows', () => {
+  it('yields overlapping windows with the first new line of each', async () => {
+    write('a.txt', ['1', '2', '3', '4', '5'].join('\n'));
+    const windows: { lines: number[]; start: number }[] = [];
+    for await (const { lines, start } of readLineWindows(path.join(root, 'a.txt'), 2, 1)) {
+      windows.push({ lines: lines.map(l => l.lineNumber), start });
+    }
+    expect(windows).toEqual([
+      { lines: [1, 2], start: 1 },
+      { lines: [2, 3, 4], start: 3 },
+      { lines: [4, 5], start: 5 },
+    ]);
+  });
+});
+
+describe('scanFiles', () => {
+  it('scans content and paths, and reports what it skipped', () => {
+    write('app/.env', 'AWS_ACCESS_KEY_ID=AKIA2E0A8F3B244C9986');
+    write('keys/id_rsa', Buffer.from([0, 1, 2]));
+    const skipped: [string, string][] = [];
+    const findings = scanFiles(['app/.env', 'keys/id_rsa'], {
+      cwd: root,
+      onSkip: (file, reason) => skipped.push([file, reason]),
+    });
+    expect(findings.map(f => [f.file, f.ruleId])).toEqual([
+      ['app/.env', 'aws-access-key-id'],
+      ['keys/id_rsa', 'ssh-private-key-file'],
+    ]);
+    expect(skipped).toEqual([['keys/id_rsa', 'binary']]);
+  });
+});